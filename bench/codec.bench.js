@@ -0,0 +1,104 @@
+// Measures the throughput of encoding and decoding each Interplay Type by passing a value to Zig and back.
+//
+// Usage: node bench/codec.bench.js [path/to/baseline/interplay.js]
+//
+// The current build in dist/ is compared against the given baseline, e.g. the dist/interplay.js of an older commit.
+
+import { readFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+
+const wasm = await readFile(new URL('../example/main.wasm', import.meta.url));
+
+// Time spent on each case, after warming up for a fraction of it
+const DURATION_MS = 500;
+
+class Counter { count = 0; }
+
+// Each value goes through all steps of the codec: encoding the argument, decoding it within the callback, encoding the
+// value again as return of the callback and decoding the return of the export
+const cases = {
+    void: undefined,
+    bool: true,
+    int: -12345,
+    uint: 12345,
+    float: 1.2345,
+    bytes: new Uint8Array(64).fill(1),
+    string: 'Hello World',
+    json: { message: 'Greetings' },
+    function: () => {},
+    array: [1, 2, 3],
+    struct: new Map([['id', 1], ['name', 'Zig']]),
+    typedarray: new Float32Array(64).fill(1.5),
+    handle: new Counter(),
+};
+
+async function load(path) {
+    const { default: InterplayInstance } = await import(pathToFileURL(path).href);
+
+    return InterplayInstance.initialize(wasm);
+}
+
+// Older builds lack imports the current example requires, like `js.panic` or `js.allocated`. These are stubbed for the
+// baseline, as the benchmark never reaches them.
+async function loadBaseline(path) {
+    const module = await WebAssembly.compile(wasm);
+    const { default: InterplayInstance } = await import(pathToFileURL(path).href);
+
+    const instantiate = WebAssembly.instantiate;
+    WebAssembly.instantiate = (source, imports) => {
+        for(const { module: name, name: field, kind } of WebAssembly.Module.imports(module)) {
+            if(name !== 'js' || kind !== 'function' || imports.js[field]) continue;
+
+            imports.js[field] = () => { throw new Error(`Import 'js.${field}' is not supported by the baseline.`); };
+        }
+        return instantiate(source, imports);
+    };
+
+    try {
+        return await InterplayInstance.initialize(module);
+    } finally {
+        WebAssembly.instantiate = instantiate;
+    }
+}
+
+function measure(inst, value) {
+    // NOTE: The original value is returned, as older baselines can't encode decoded structs as struct again
+    const echo = () => value;
+    const run = (until) => {
+        let ops = 0;
+        while(performance.now() < until) {
+            inst.testFunctionWithArgs(echo, [value]);
+            ops++;
+        }
+        return ops;
+    };
+
+    // NOTE: Older builds fail on a call growing the memory while they encode typed arrays, which only happens until
+    //       the allocator has enough memory to reuse
+    for(let attempt = 0; ; attempt++) {
+        try {
+            inst.testFunctionWithArgs(echo, [value]);
+            break;
+        } catch(e) {
+            if(attempt >= 10 || !/detached/.test(e.message)) throw e;
+        }
+    }
+    run(performance.now() + DURATION_MS / 5);
+
+    return Math.round(run(performance.now() + DURATION_MS) / (DURATION_MS / 1000));
+}
+
+const current = await load(new URL('../dist/interplay.js', import.meta.url).pathname);
+const baseline = process.argv[2] ? await loadBaseline(process.argv[2]) : undefined;
+
+const results = {};
+for(const [name, value] of Object.entries(cases)) {
+    const result = results[name] = { 'ops/s': measure(current, value) };
+
+    if(baseline) {
+        result['baseline ops/s'] = measure(baseline, value);
+        result.speedup = `${(result['ops/s'] / result['baseline ops/s']).toFixed(2)}x`;
+    }
+}
+
+console.table(results);
@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+/*!
+ * @license zig-js-interplay
+ *
+ * Copyright (c) Daniel Oltmanns.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// Generate TypeScript declarations for the exports of a Zig source using Interplay Types.
+// Usage: interplay-dts <input.zig> [output.d.ts] [--name InterfaceName] [--decode-integers-as bigint|number|auto]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { generateDeclarations } from '../dist/declarations.js';
+
+const args = process.argv.slice(2);
+const nameIndex = args.indexOf('--name');
+const interfaceName = (nameIndex >= 0) ? args.splice(nameIndex, 2)[1] : undefined;
+const modeIndex = args.indexOf('--decode-integers-as');
+const decodeIntegersAs = (modeIndex >= 0) ? args.splice(modeIndex, 2)[1] : undefined;
+const [input, output] = args;
+
+if (!input) {
+    console.error('Usage: interplay-dts <input.zig> [output.d.ts] [--name InterfaceName] [--decode-integers-as bigint|number|auto]');
+    process.exit(1);
+}
+
+const declarations = generateDeclarations(readFileSync(input, 'utf8'), { interfaceName, decodeIntegersAs, sourceName: basename(input) });
+
+if (output) {
+    writeFileSync(output, declarations);
+} else {
+    process.stdout.write(declarations);
+}
@@ -58,4 +58,35 @@ pub fn build(b: *std.Build) void {
     // location when the user invokes the "install" step (the default step when
     // running `zig build`).
     b.getInstallStep().dependOn(&b.addInstallFile(wasm.getEmittedBin(), "../main.wasm").step);
+
+    // The same module with threads, which imports a shared memory. Other instances can work on the same memory,
+    // e.g. workers spawned with the `sharedWith` option.
+    const shared = b.addExecutable(.{
+        .name = "main-shared",
+        .root_source_file = b.path("src/main.zig"),
+        .target = wasm_target,
+        .optimize = optimize,
+        .single_threaded = false,
+    });
+    shared.root_module.addImport("zig-js-interplay", zigJsInterplay.module("zig-js-interplay"));
+    shared.entry = .disabled;
+    shared.rdynamic = true;
+    shared.import_memory = true;
+    shared.shared_memory = true;
+    shared.max_memory = std.wasm.page_size * 100; // a shared memory requires a maximum
+
+    b.getInstallStep().dependOn(&b.addInstallFile(shared.getEmittedBin(), "../main-shared.wasm").step);
+
+    // A module calling the exports of the main module, which are linked by an InterplayRegistry on the JS side
+    const plugin = b.addExecutable(.{
+        .name = "plugin",
+        .root_source_file = b.path("src/plugin.zig"),
+        .target = wasm_target,
+        .optimize = optimize,
+    });
+    plugin.root_module.addImport("zig-js-interplay", zigJsInterplay.module("zig-js-interplay"));
+    plugin.entry = .disabled;
+    plugin.rdynamic = true;
+
+    b.getInstallStep().dependOn(&b.addInstallFile(plugin.getEmittedBin(), "../plugin.wasm").step);
 }
@@ -3,6 +3,9 @@ const ipl = @import("zig-js-interplay");
 
 const js = ipl.js;
 
+// Route panics to the JS environment, where they are thrown as errors
+pub const panic = ipl.panic;
+
 const AnyType = ipl.AnyType;
 const Void = ipl.Void;
 const Bool = ipl.Bool;
@@ -14,6 +17,7 @@ const Bytes = ipl.Bytes;
 const JSON = ipl.JSON;
 const Function = ipl.Function;
 const Array = ipl.Array;
+const Promise = ipl.Promise;
 
 export fn greet(name: String) String {
     // Generate a new greet message that we can return
@@ -82,7 +86,8 @@ export fn testFloat() Float {
 }
 
 export fn printFloat(arg: Float) void {
-    const message = std.fmt.allocPrint(ipl.allocator, "Float = {any}!", .{arg.value()}) catch @panic("Oops");
+    // The decimal format doesn't depend on how the Zig version formats floats by default
+    const message = std.fmt.allocPrint(ipl.allocator, "Float = {d}!", .{arg.value()}) catch @panic("Oops");
     js.log(String.init(message));
 }
 
@@ -133,3 +138,195 @@ export fn testFunction(arg: Function) AnyType {
 export fn testFunctionWithArgs(arg: Function, args: Array) AnyType {
     return arg.call(args);
 }
+
+// Greet the name returned by the function
+export fn greetFunction(name: Function) String {
+    return greet(@bitCast(name.call(Array.empty)));
+}
+
+export fn sumFloat64(values: ipl.Float64Array) Float {
+    var sum: f64 = 0;
+    for (values.value()) |v| sum += v;
+    return Float.init(sum);
+}
+
+// A Uint8ClampedArray is accepted as []u8 as well
+export fn sumBytes(values: ipl.Uint8Array) UnsignedInteger {
+    var sum: u124 = 0;
+    for (values.value()) |v| sum += v;
+    return UnsignedInteger.init(sum);
+}
+
+const Size = struct {
+    width: u32 = 1,
+    height: u32 = 1,
+};
+
+const Point = struct {
+    x: i32,
+    y: i32,
+    label: []const u8 = "point",
+    visible: bool = true,
+    weight: ?f64 = null,
+    size: Size = .{},
+};
+
+// Move the point diagonally, the fields missing on the JS side get their default value
+export fn movePoint(point: ipl.Struct) ipl.Struct {
+    var p = point.into(Point);
+    p.x += 1;
+    p.y += 1;
+    if (p.weight) |weight| p.weight = weight * 2;
+
+    return ipl.Struct.from(p);
+}
+
+// Plain objects fitting JSON are passed as JSON by default, the signature lets the JS side pass them as struct
+comptime {
+    ipl.exportSignature("movePoint", movePoint);
+}
+
+// Count on an object of the JS side, which stays there while we read and write its property and call its method
+export fn bumpCounter(object: ipl.Handle) AnyType {
+    const current = ipl.fromAny(i64, object.get("count"));
+    object.set("count", ipl.toAny(current + 1));
+
+    return object.call("describe", Array.empty);
+}
+
+// Greet the name if there is any, null and undefined are missing names
+export fn greetOptional(name: ipl.Optional(String)) ipl.Optional(String) {
+    const some = name.value() orelse return ipl.Optional(String).init(@as(?String, null));
+    return ipl.Optional(String).init(@as(?String, greet(some)));
+}
+
+// Errors of the Result are thrown on the JS side, e.g. for "abc"
+export fn parseInt(text: String) ipl.Result(Integer) {
+    return ipl.Result(Integer).init(std.fmt.parseInt(i64, text.value(), 10));
+}
+
+export fn divide(a: Integer, b: Integer) Integer {
+    if (b.value() == 0) ipl.fail(error.DivisionByZero, "Cannot divide by zero");
+    return Integer.init(@divTrunc(a.value(), b.value()));
+}
+
+// Positive numbers are passed as uint by default, the signature lets the JS side pass them as int
+comptime {
+    ipl.exportSignature("divide", divide);
+}
+
+// Count down to 1, the generator lives until the iterator is done or closed by the consumer
+const Countdown = struct {
+    current: u32,
+
+    pub fn next(self: *Countdown) ?AnyType {
+        if (self.current == 0) return null;
+        defer self.current -= 1;
+        return UnsignedInteger.init(self.current).asAny();
+    }
+
+    pub fn deinit(self: *Countdown) void {
+        ipl.allocator.destroy(self);
+    }
+};
+
+export fn countdown(start: UnsignedInteger) ipl.Iterator {
+    const generator = ipl.allocator.create(Countdown) catch @panic("Oops");
+    generator.* = .{ .current = start.as(u32) };
+    return ipl.Iterator.init(generator);
+}
+
+// Join the strings of an iterable of the JS side
+export fn joinAll(values: ipl.Iterator) String {
+    var text = std.ArrayList(u8).init(ipl.allocator);
+    defer text.deinit();
+
+    while (true) {
+        const v = values.next();
+        if (ipl.Iterator.isEnd(v)) break;
+
+        // The values are owned by us
+        const part = ipl.fromAny([]const u8, v);
+        defer ipl.allocator.free(part);
+        text.appendSlice(part) catch @panic("Oops");
+    }
+
+    return String.init(text.items);
+}
+
+const Order = struct {
+    id: u64,
+    item: []const u8,
+    price: f64,
+    quantity: u16 = 1,
+    note: ?[]const u8 = null,
+    status: enum { pending, shipped } = .pending,
+    tags: []const []const u8 = &.{},
+    checksum: [4]u8 = .{ 0, 0, 0, 0 },
+};
+
+// Ship the order, which is decoded from CBOR straight into a Zig struct and encoded again
+export fn shipOrder(order: ipl.CBOR) ipl.CBOR {
+    var o = order.into(Order);
+    // Strings point into the CBOR value, while other slices are allocated
+    defer ipl.allocator.free(o.tags);
+
+    o.status = .shipped;
+    return ipl.CBOR.from(o);
+}
+
+// Read-only properties of the instance on the JS side
+comptime {
+    ipl.exportConstant("version", "1.2.3");
+    ipl.exportConstant("limits", .{ .max_name = 64, .strict = false, .ratio = 0.5 });
+}
+
+export fn testPanic() void {
+    // The message lives within a large stack frame, which the panic skips to clean up
+    var buf: [64 * 1024]u8 = undefined;
+    @panic(std.fmt.bufPrint(&buf, "Something went {s}", .{"wrong"}) catch unreachable);
+}
+
+export fn testTrap() void {
+    @trap();
+}
+
+// Keep an allocation on purpose, which the debug mode reports as possible leak
+export fn testLeak() void {
+    _ = ipl.allocator.alloc(u8, 16) catch @panic("Oops");
+}
+
+var kept: ?Promise = null;
+
+// Keep the promise to chain on it within a later call, see chainPromise
+export fn keepPromise(promise: Promise) void {
+    promise.retain();
+    kept = promise;
+}
+
+export fn chainPromise(callback: Function) Promise {
+    const promise = kept orelse ipl.fail(error.NoPromise, "No promise has been kept");
+    defer promise.release();
+    kept = null;
+
+    return promise.then(callback);
+}
+
+// Settle a promise of our own before returning it, which is rejected without a name
+export fn greetPromise(name: String) Promise {
+    const promise = Promise.init();
+    if (name.value().len == 0) {
+        promise.reject(String.init("No name given").asAny());
+    } else {
+        promise.resolve(greet(name).asAny());
+    }
+
+    return promise;
+}
+
+var counter: u32 = 0;
+
+// Count the calls of all instances, which share the counter when built with a shared memory
+export fn count() UnsignedInteger {
+    return UnsignedInteger.init(@atomicRmw(u32, &counter, .Add, 1, .seq_cst) + 1);
+}
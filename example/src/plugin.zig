@@ -0,0 +1,45 @@
+const std = @import("std");
+const ipl = @import("zig-js-interplay");
+
+const AnyType = ipl.AnyType;
+const String = ipl.String;
+const Function = ipl.Function;
+const Array = ipl.Array;
+
+// Exports of the sibling module, which has been registered as "main" with an InterplayRegistry on the JS side
+const greet = ipl.importFunction("main", "greet", fn (String) callconv(.C) String);
+const greetFunction = ipl.importFunction("main", "greetFunction", fn (Function) callconv(.C) String);
+
+// Provided by the JS side with the `imports` option
+const decorate = ipl.hostFunction("decorate", fn (String) callconv(.C) String);
+
+// Shout the greeting of the main module
+export fn shout(name: String) String {
+    // The greeting has been copied into our memory, so we own it
+    const greeting = greet(name).value();
+    defer ipl.allocator.free(greeting);
+
+    // The message is copied by String.init
+    const message = std.ascii.allocUpperString(ipl.allocator, greeting) catch @panic("Oops");
+    defer ipl.allocator.free(message);
+
+    return String.init(message);
+}
+
+fn pluginName(_: Array) AnyType {
+    return String.init("Plugin").asAny();
+}
+
+// Let the main module greet this module, which calls back into this module for its name
+export fn greetPlugin() String {
+    return greetFunction(Function.init(pluginName));
+}
+
+// Let the JS side decorate the greeting of the main module
+export fn decoratedGreeting(name: String) String {
+    const greeting = greet(name);
+    defer ipl.allocator.free(greeting.value());
+
+    // The greeting is only borrowed by the JS side, while we own the decorated one
+    return decorate(greeting);
+}
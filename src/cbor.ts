@@ -0,0 +1,397 @@
+/*!
+ * @license zig-js-interplay
+ *
+ * Copyright (c) Daniel Oltmanns.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * The major types of CBOR (RFC 8949), which are stored in the upper 3 bits of the first byte of each item.
+ */
+enum Major {
+    uint = 0,
+    negint = 1,
+    bytes = 2,
+    text = 3,
+    array = 4,
+    map = 5,
+    tag = 6,
+    simple = 7,
+}
+
+/**
+ * The tags we encode and decode beyond the plain data items.
+ */
+enum Tag {
+    dateString = 0,
+    dateEpoch = 1,
+    positiveBignum = 2,
+    negativeBignum = 3,
+    set = 258,
+}
+
+/**
+ * Additional information of an item with an indefinite length, which ends with the break byte.
+ */
+const indefinite = 31;
+const breakByte = 0xff;
+
+/**
+ * Encode a JavaScript value as CBOR. Unlike JSON, `undefined`, bigints, binary data, `Date`, `Map` and `Set` are kept.
+ * Typed arrays other than Uint8Array are encoded as byte strings of their raw bytes.
+ *
+ * @param value the value to encode
+ * @returns the encoded value
+ */
+export function encodeCbor(value: any): Uint8Array {
+    const writer = new CborWriter();
+    writer.write(value);
+
+    return writer.result();
+}
+
+/**
+ * Decode a CBOR value. Integers are decoded as numbers as long as they are safe integers, as bigints otherwise. Maps
+ * with only text keys are decoded as plain objects, any other map as `Map`.
+ *
+ * @param bytes the encoded value
+ * @returns the decoded value
+ */
+export function decodeCbor(bytes: Uint8Array): any {
+    const reader = new CborReader(bytes);
+    const value = reader.read();
+
+    if(!reader.done) {
+        throw new Error('Unexpected data after the CBOR value.');
+    }
+
+    return value;
+}
+
+class CborWriter {
+    #buffer = new Uint8Array(256);
+    #view = new DataView(this.#buffer.buffer);
+    #length = 0;
+    #textEncoder = new TextEncoder();
+
+    /**
+     * Write a single value, including everything it contains.
+     *
+     * @param value the value to write
+     */
+    write(value: any) {
+        switch(typeof value) {
+            case 'undefined':
+                return this.#byte(0xf7);
+            case 'boolean':
+                return this.#byte(value ? 0xf5 : 0xf4);
+            case 'number':
+                if(Number.isSafeInteger(value)) {
+                    return (value >= 0) ? this.#head(Major.uint, value) : this.#head(Major.negint, -1 - value);
+                }
+                this.#byte(0xfb);
+                this.#reserve(8);
+                this.#view.setFloat64(this.#length, value);
+                this.#length += 8;
+                return;
+            case 'bigint':
+                return this.#bigint(value);
+            case 'string':
+                return this.#bytes(Major.text, this.#textEncoder.encode(value));
+            case 'object':
+                break;
+            default:
+                throw new Error(`type '${typeof value}' can't be encoded as CBOR`);
+        }
+
+        if(value === null) {
+            this.#byte(0xf6);
+        } else if(value instanceof Uint8Array) {
+            this.#bytes(Major.bytes, value);
+        } else if(value instanceof ArrayBuffer) {
+            this.#bytes(Major.bytes, new Uint8Array(value));
+        } else if(ArrayBuffer.isView(value)) {
+            this.#bytes(Major.bytes, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        } else if(Array.isArray(value)) {
+            this.#head(Major.array, value.length);
+            for(const item of value) this.write(item);
+        } else if(value instanceof Date) {
+            this.#head(Major.tag, Tag.dateEpoch);
+            this.write(value.getTime() / 1000);
+        } else if(value instanceof Set) {
+            this.#head(Major.tag, Tag.set);
+            this.write([...value]);
+        } else if(value instanceof Map) {
+            this.#head(Major.map, value.size);
+            for(const [k, v] of value) {
+                this.write(k);
+                this.write(v);
+            }
+        } else {
+            const entries = Object.entries(value);
+            this.#head(Major.map, entries.length);
+            for(const [k, v] of entries) {
+                this.write(k);
+                this.write(v);
+            }
+        }
+    }
+
+    /**
+     * Get the written bytes.
+     *
+     * @returns a copy of the written bytes
+     */
+    result(): Uint8Array {
+        return this.#buffer.slice(0, this.#length);
+    }
+
+    #bigint(value: bigint) {
+        const negative = value < 0n;
+        const magnitude = negative ? -1n - value : value;
+
+        // Integers beyond 64bit are encoded as bignums, which are tagged byte strings
+        if(magnitude < (1n << 64n)) {
+            return this.#head(negative ? Major.negint : Major.uint, magnitude);
+        }
+
+        const hex = magnitude.toString(16);
+        const bytes = new Uint8Array(Math.ceil(hex.length / 2));
+        for(let i = 0, h = hex.padStart(bytes.length * 2, '0'); i < bytes.length; i++) {
+            bytes[i] = parseInt(h.slice(i * 2, i * 2 + 2), 16);
+        }
+
+        this.#head(Major.tag, negative ? Tag.negativeBignum : Tag.positiveBignum);
+        this.#bytes(Major.bytes, bytes);
+    }
+
+    #bytes(major: Major, bytes: Uint8Array) {
+        this.#head(major, bytes.length);
+        this.#reserve(bytes.length);
+        this.#buffer.set(bytes, this.#length);
+        this.#length += bytes.length;
+    }
+
+    /**
+     * Write the first byte of an item with its argument, e.g. a length or an integer, in the shortest form.
+     */
+    #head(major: Major, arg: number | bigint) {
+        const initial = major << 5;
+
+        this.#reserve(9);
+        if(arg < 24) {
+            this.#view.setUint8(this.#length, initial | Number(arg));
+            this.#length += 1;
+        } else if(arg < 0x100) {
+            this.#view.setUint8(this.#length, initial | 24);
+            this.#view.setUint8(this.#length + 1, Number(arg));
+            this.#length += 2;
+        } else if(arg < 0x10000) {
+            this.#view.setUint8(this.#length, initial | 25);
+            this.#view.setUint16(this.#length + 1, Number(arg));
+            this.#length += 3;
+        } else if(arg < 0x100000000) {
+            this.#view.setUint8(this.#length, initial | 26);
+            this.#view.setUint32(this.#length + 1, Number(arg));
+            this.#length += 5;
+        } else {
+            this.#view.setUint8(this.#length, initial | 27);
+            this.#view.setBigUint64(this.#length + 1, BigInt(arg));
+            this.#length += 9;
+        }
+    }
+
+    #byte(value: number) {
+        this.#reserve(1);
+        this.#buffer[this.#length++] = value;
+    }
+
+    /**
+     * Make sure there is room for the given number of bytes, growing the buffer if necessary.
+     */
+    #reserve(size: number) {
+        if(this.#length + size <= this.#buffer.length) return;
+
+        const buffer = new Uint8Array(Math.max(this.#buffer.length * 2, this.#length + size));
+        buffer.set(this.#buffer.subarray(0, this.#length));
+        this.#buffer = buffer;
+        this.#view = new DataView(buffer.buffer);
+    }
+}
+
+class CborReader {
+    #bytes: Uint8Array;
+    #view: DataView;
+    #pos = 0;
+    #textDecoder = new TextDecoder();
+
+    constructor(bytes: Uint8Array) {
+        this.#bytes = bytes;
+        this.#view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    /**
+     * Whether all bytes have been read.
+     */
+    get done(): boolean {
+        return this.#pos >= this.#bytes.length;
+    }
+
+    /**
+     * Read a single value, including everything it contains.
+     *
+     * @returns the decoded value
+     */
+    read(): any {
+        const initial = this.#uint8();
+        const major: Major = initial >> 5;
+        const info = initial & 0x1f;
+
+        if(major === Major.simple) return this.#simple(info);
+
+        const arg = this.#argument(info);
+
+        switch(major) {
+            case Major.uint:
+                return this.#integer(arg as bigint);
+            case Major.negint:
+                return this.#integer(-1n - BigInt(arg));
+            case Major.bytes:
+                return this.#string(arg, major);
+            case Major.text:
+                return this.#textDecoder.decode(this.#string(arg, major));
+            case Major.array: {
+                const items = [];
+                this.#repeat(arg, () => items.push(this.read()));
+                return items;
+            }
+            case Major.map: {
+                const entries: Array<[any, any]> = [];
+                this.#repeat(arg, () => entries.push([this.read(), this.read()]));
+                return entries.every(([k]) => typeof k === 'string') ? Object.fromEntries(entries) : new Map(entries);
+            }
+            case Major.tag:
+                return this.#tagged(Number(arg), this.read());
+        }
+    }
+
+    #tagged(tag: number, value: any): any {
+        switch(tag) {
+            case Tag.dateString:
+            case Tag.dateEpoch:
+                return new Date((tag === Tag.dateEpoch) ? Number(value) * 1000 : value);
+            case Tag.positiveBignum:
+            case Tag.negativeBignum: {
+                const magnitude = (value.length > 0) ? BigInt('0x' + Array.from(value as Uint8Array, b => b.toString(16).padStart(2, '0')).join('')) : 0n;
+                return (tag === Tag.positiveBignum) ? magnitude : -1n - magnitude;
+            }
+            case Tag.set:
+                return new Set(value);
+            default:
+                // Unknown tags only add semantics to the value, so the value itself is still meaningful
+                return value;
+        }
+    }
+
+    #simple(info: number): any {
+        switch(info) {
+            case 20: return false;
+            case 21: return true;
+            case 22: return null;
+            case 23: return undefined;
+            case 24: return this.#uint8();
+            case 25: return this.#float16();
+            case 26: return this.#advance(4, (pos) => this.#view.getFloat32(pos));
+            case 27: return this.#advance(8, (pos) => this.#view.getFloat64(pos));
+            default:
+                if(info < 20) return info;
+                throw new Error(`Invalid CBOR simple value ${info}.`);
+        }
+    }
+
+    #float16(): number {
+        const half = this.#advance(2, (pos) => this.#view.getUint16(pos));
+        const exponent = (half >> 10) & 0x1f;
+        const fraction = half & 0x3ff;
+        const sign = (half & 0x8000) ? -1 : 1;
+
+        if(exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+        if(exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+        return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+    }
+
+    /**
+     * Read the argument of an item, which is undefined for items with an indefinite length.
+     */
+    #argument(info: number): number | bigint | undefined {
+        if(info < 24) return info;
+
+        switch(info) {
+            case 24: return this.#uint8();
+            case 25: return this.#advance(2, (pos) => this.#view.getUint16(pos));
+            case 26: return this.#advance(4, (pos) => this.#view.getUint32(pos));
+            case 27: return this.#advance(8, (pos) => this.#view.getBigUint64(pos));
+            case indefinite: return undefined;
+            default: throw new Error(`Invalid CBOR additional information ${info}.`);
+        }
+    }
+
+    #integer(value: number | bigint): number | bigint {
+        return (typeof value === 'number' || (value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER))) ? Number(value) : value;
+    }
+
+    /**
+     * Read the content of a byte or text string. Strings of indefinite length consist of chunks of definite length.
+     */
+    #string(length: number | bigint | undefined, major: Major): Uint8Array {
+        if(length !== undefined) {
+            return this.#advance(Number(length), (pos) => this.#bytes.slice(pos, pos + Number(length)));
+        }
+
+        const chunks: Uint8Array[] = [];
+        this.#repeat(undefined, () => {
+            const initial = this.#uint8();
+            if((initial >> 5) !== major) throw new Error('Invalid chunk within a CBOR string of indefinite length.');
+            chunks.push(this.#string(this.#argument(initial & 0x1f), major));
+        });
+
+        const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+        chunks.reduce((offset, c) => (joined.set(c, offset), offset + c.length), 0);
+        return joined;
+    }
+
+    /**
+     * Call the callback for each item of an array, map or string. Without a count the items end at the break byte.
+     */
+    #repeat(count: number | bigint | undefined, callback: () => void) {
+        if(count !== undefined) {
+            for(let i = 0; i < Number(count); i++) callback();
+            return;
+        }
+
+        while(this.#bytes[this.#pos] !== breakByte) {
+            if(this.done) throw new Error('Unexpected end of CBOR data.');
+            callback();
+        }
+        this.#pos++;
+    }
+
+    #uint8(): number {
+        return this.#advance(1, (pos) => this.#bytes[pos]);
+    }
+
+    /**
+     * Read the given number of bytes and move past them.
+     */
+    #advance<T>(size: number, read: (pos: number) => T): T {
+        if(this.#pos + size > this.#bytes.length) {
+            throw new Error('Unexpected end of CBOR data.');
+        }
+
+        const value = read(this.#pos);
+        this.#pos += size;
+        return value;
+    }
+}
@@ -0,0 +1,244 @@
+/*!
+ * @license zig-js-interplay
+ *
+ * Copyright (c) Daniel Oltmanns.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+/**
+ * The TypeScript types of each Interplay Type from the interplay.zig file. Arguments are more relaxed than returns, as the
+ * encoding accepts more JavaScript values than the decoding produces.
+ */
+const interplayTypes: {[key: string]: { arg: string, ret: string }} = {
+    AnyType: { arg: 'any', ret: 'any' },
+    Void: { arg: 'undefined | null', ret: 'undefined | null' },
+    Bool: { arg: 'boolean', ret: 'boolean' },
+    Integer: { arg: 'number | bigint | InterplayValue', ret: 'bigint' },
+    UnsignedInteger: { arg: 'number | bigint | InterplayValue', ret: 'bigint' },
+    Float: { arg: 'number | InterplayValue', ret: 'number' },
+    Bytes: { arg: 'Uint8Array | ArrayBuffer', ret: 'Uint8Array' },
+    String: { arg: 'string', ret: 'string' },
+    JSON: { arg: 'any', ret: 'any' },
+    CBOR: { arg: 'any', ret: 'any' },
+    Function: { arg: '(...args: any[]) => any', ret: '(...args: any[]) => any' },
+    Iterator: { arg: 'Iterable<any> | AsyncIterable<any> | ReadableStream', ret: 'InterplayIterator' },
+    Array: { arg: 'any[]', ret: 'any[]' },
+    // Errors returned by Zig are always thrown on the JS side
+    Error: { arg: 'Error', ret: 'never' },
+    Promise: { arg: 'PromiseLike<any>', ret: 'Promise<any>' },
+    Struct: { arg: 'Map<string, any> | { [key: string]: any }', ret: '{ [key: string]: any }' },
+    Handle: { arg: 'object', ret: 'any' },
+    Int8Array: { arg: 'Int8Array', ret: 'Int8Array' },
+    // A Uint8Array is passed as Bytes, so only a Uint8ClampedArray is passed as []u8
+    Uint8Array: { arg: 'Uint8ClampedArray', ret: 'Uint8Array' },
+    Int16Array: { arg: 'Int16Array', ret: 'Int16Array' },
+    Uint16Array: { arg: 'Uint16Array', ret: 'Uint16Array' },
+    Int32Array: { arg: 'Int32Array', ret: 'Int32Array' },
+    Uint32Array: { arg: 'Uint32Array', ret: 'Uint32Array' },
+    Float32Array: { arg: 'Float32Array', ret: 'Float32Array' },
+    Float64Array: { arg: 'Float64Array', ret: 'Float64Array' },
+    BigInt64Array: { arg: 'BigInt64Array', ret: 'BigInt64Array' },
+    BigUint64Array: { arg: 'BigUint64Array', ret: 'BigUint64Array' },
+};
+
+/**
+ * The typed arrays by the element type of `TypedArray(T)`.
+ */
+const typedArrayElements: {[key: string]: string} = {
+    i8: 'Int8Array',
+    u8: 'Uint8Array',
+    i16: 'Int16Array',
+    u16: 'Uint16Array',
+    i32: 'Int32Array',
+    u32: 'Uint32Array',
+    f32: 'Float32Array',
+    f64: 'Float64Array',
+    i64: 'BigInt64Array',
+    u64: 'BigUint64Array',
+};
+
+/**
+ * The TypeScript types of decoded integers by the `decodeIntegersAs` option of the instance.
+ */
+const integerTypes: {[key: string]: string} = {
+    bigint: 'bigint',
+    number: 'number',
+    auto: 'number | bigint',
+};
+
+/**
+ * Native Zig return types that can show up in exported functions without being an Interplay Type.
+ */
+const nativeReturnTypes: {[key: string]: string} = {
+    void: 'void',
+    noreturn: 'never',
+};
+
+/**
+ * Exports of interplay.zig itself that are not part of the modules interface.
+ */
+const internalExports = ['alloc', 'free', 'call', 'ipl_pointer_bits', 'ipl_set_tracking'];
+
+export interface ExportedFunction {
+    name: string;
+    params: Array<{ name: string, type: string }>;
+    returnType: string;
+}
+
+export interface ExportedConstant {
+    name: string;
+    type: string;
+}
+
+export interface DeclarationOptions {
+    /**
+     * Name of the generated interface. Defaults to `Exports`.
+     */
+    interfaceName?: string;
+
+    /**
+     * Name of the source file, which is mentioned in the header of the generated file.
+     */
+    sourceName?: string;
+
+    /**
+     * The `decodeIntegersAs` option of the instance, which decides the type of returned integers. Defaults to `bigint`.
+     */
+    decodeIntegersAs?: 'bigint' | 'number' | 'auto';
+}
+
+/**
+ * Find all exported functions in a Zig source and map their Interplay Types to TypeScript types. Aliases of the Interplay
+ * Types, like `const String = ipl.String;`, and the generic types, like `Optional(String)`, are resolved. Types that are
+ * unknown are mapped to `unknown`.
+ *
+ * @param source the Zig source code
+ * @param options options for the generated declarations
+ * @returns the exported functions with their TypeScript types
+ */
+export function parseExports(source: string, options: DeclarationOptions = {}): ExportedFunction[] {
+    // Remove comments so we don't pick up any commented out exports
+    const code = source.replace(/\/\/.*$/gm, '');
+
+    // Collect aliases of the form `const Name = some.path.Type;`
+    const aliases: {[key: string]: string} = {};
+    for (const [, alias, target] of code.matchAll(/const\s+(\w+)\s*=\s*([\w.]+(?:\(\s*[\w.]+\s*\))?)\s*;/g)) {
+        aliases[alias] = withoutNamespaces(target);
+    }
+
+    const resolve = (zigType: string, kind: 'arg' | 'ret'): string => {
+        let name = withoutNamespaces(zigType.trim());
+        // Follow aliases until we end at a known type
+        for (let i = 0; i < 8 && !(name in interplayTypes) && name in aliases; i++) {
+            name = aliases[name];
+        }
+
+        if (kind === 'ret' && (name === 'Integer' || name === 'UnsignedInteger')) return integerTypes[options.decodeIntegersAs ?? 'bigint'];
+        if (name in interplayTypes) return interplayTypes[name][kind];
+
+        const generic = name.match(/^(\w+)\(\s*(.+?)\s*\)$/);
+        if (generic) {
+            const [, wrapper, inner] = generic;
+            if (wrapper === 'TypedArray' && inner in typedArrayElements) {
+                // A Uint8Array is passed as Bytes, so only a Uint8ClampedArray is passed as []u8
+                return (inner === 'u8' && kind === 'arg') ? 'Uint8ClampedArray' : typedArrayElements[inner];
+            }
+            // Missing values are always returned as null, but undefined is accepted as well
+            if (wrapper === 'Optional') return `${resolve(inner, kind)} | null${(kind === 'arg') ? ' | undefined' : ''}`;
+            // Errors are thrown, so only the value is left
+            if (wrapper === 'Result') return resolve(inner, kind);
+        }
+
+        if (kind === 'ret' && zigType.trim() in nativeReturnTypes) return nativeReturnTypes[zigType.trim()];
+
+        return 'unknown';
+    };
+
+    const exported: ExportedFunction[] = [];
+    for (const [, name, params, returnType] of code.matchAll(/export\s+fn\s+(\w+)\s*\(((?:[^()]|\([^()]*\))*)\)\s*([^{]+?)\s*\{/g)) {
+        if (internalExports.includes(name)) continue;
+
+        exported.push({
+            name,
+            params: params.split(',').map(p => p.trim()).filter(p => p.length > 0).map((p, i) => {
+                const [paramName, paramType] = p.split(':').map(v => v.trim());
+                // Discarded parameters still need a name on the TypeScript side
+                return { name: (paramName === '_') ? `arg${i}` : paramName, type: resolve(paramType, 'arg') };
+            }),
+            // NOTE: Calling conventions are irrelevant for the generated types
+            returnType: resolve(returnType.replace(/callconv\([^)]*\)/, ''), 'ret'),
+        });
+    }
+
+    return exported;
+}
+
+/**
+ * Remove the namespaces of a Zig type, e.g. `ipl.Optional(ipl.String)` becomes `Optional(String)`.
+ *
+ * @param zigType the Zig type
+ * @returns the type without namespaces
+ */
+function withoutNamespaces(zigType: string): string {
+    return zigType.replace(/\b\w+\./g, '');
+}
+
+/**
+ * Find all constants exported with `exportConstant` in a Zig source. The TypeScript type is derived from simple literals,
+ * anything else is mapped to `any`.
+ *
+ * @param source the Zig source code
+ * @param options options for the generated declarations
+ * @returns the exported constants with their TypeScript types
+ */
+export function parseConstants(source: string, options: DeclarationOptions = {}): ExportedConstant[] {
+    const code = source.replace(/\/\/.*$/gm, '');
+
+    const constants: ExportedConstant[] = [];
+    for (const [, name, value] of code.matchAll(/exportConstant\(\s*"(\w+)"\s*,\s*([^)]*?)\s*\)/g)) {
+        let type = 'any';
+        if (/^"/.test(value)) type = 'string';
+        else if (/^(true|false)$/.test(value)) type = 'boolean';
+        else if (/^-?\d+$/.test(value)) type = integerTypes[options.decodeIntegersAs ?? 'bigint'];
+        else if (/^-?\d+\.\d+$/.test(value)) type = 'number';
+        else if (/^\.\{/.test(value)) type = '{ [key: string]: any }';
+
+        constants.push({ name, type });
+    }
+
+    return constants;
+}
+
+/**
+ * Generate the TypeScript declarations of all exported functions and constants in a Zig source. The generated interface can be passed
+ * to `InterplayInstance.initialize<T>()` to get a typed instance.
+ *
+ * @param source the Zig source code
+ * @param options options for the generated declarations
+ * @returns the content of the generated `.d.ts` file
+ */
+export function generateDeclarations(source: string, options: DeclarationOptions = {}): string {
+    const interfaceName = options.interfaceName ?? 'Exports';
+    const lines = [
+        `// This file has been generated by zig-js-interplay${options.sourceName ? ` from ${options.sourceName}` : ''}. Do not edit.`,
+        '',
+        `import type { InterplayIterator, InterplayValue } from 'zig-js-interplay';`,
+        '',
+        `export interface ${interfaceName} {`,
+    ];
+
+    for (const constant of parseConstants(source, options)) {
+        lines.push(`    readonly ${constant.name}: ${constant.type};`);
+    }
+
+    for (const func of parseExports(source, options)) {
+        const params = func.params.map(p => `${p.name}: ${p.type}`).join(', ');
+        lines.push(`    ${func.name}(${params}): ${func.returnType};`);
+    }
+
+    lines.push('}', '');
+
+    return lines.join('\n');
+}
@@ -7,15 +7,289 @@
  * LICENSE file in the root directory of this source tree.
  */
 
+import { decodeCbor, encodeCbor } from './cbor';
+
+export { decodeCbor, encodeCbor };
+
 type InterplayTypeHalf = bigint;
 type InterplayType = [InterplayTypeHalf, InterplayTypeHalf];
 
+/**
+ * The async variants of the given exports, which return a promise of the original return.
+ */
+export type AsyncExports<T> = {
+    [K in keyof T]: T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never
+};
+
+/**
+ * Options for the initialization of an InterplayInstance.
+ */
+export interface InterplayOptions {
+    /**
+     * Additional host functions provided to Zig in the `js` namespace. Their arguments and returns are converted between
+     * Interplay Types and JavaScript values, just like for the exports.
+     */
+    imports?: {[name: string]: (...args: any[]) => any};
+
+    /**
+     * Track every allocation within the WASM memory and report possible leaks after each call. This slows down each
+     * call noticeably and should only be enabled during development.
+     */
+    debug?: boolean | InterplayDebugOptions;
+
+    /**
+     * How int and uint values are decoded. `bigint` always returns a BigInt, `number` always returns a number and may
+     * lose precision, `auto` returns a number as long as it is a safe integer. Defaults to `bigint`.
+     */
+    decodeIntegersAs?: 'bigint' | 'number' | 'auto';
+
+    /**
+     * Hooks that are notified about each call crossing the boundary, see `InterplayInstance.addHooks`.
+     */
+    hooks?: InterplayHooks;
+
+    /**
+     * Receives the messages logged by Zig via `js.log` or `logFn` of interplay.zig, as well as warnings of Interplay
+     * itself. Defaults to the console.
+     */
+    logger?: InterplayLogger;
+
+    /**
+     * Messages below this level are dropped. Defaults to `debug`, so every message is passed to the logger.
+     */
+    logLevel?: InterplayLogLevel | 'silent';
+
+    /**
+     * Host functions provided to Zig in other import modules than `js`, by the name of the import module. Their
+     * arguments and returns are converted just like for the `imports`. See `InterplayRegistry`, which links the exports
+     * of sibling modules this way.
+     */
+    modules?: {[module: string]: {[name: string]: (...args: any[]) => any}};
+
+    /**
+     * Memory provided to the module as `env.memory`, which is required for modules built with `--import-memory`. A
+     * shared memory, i.e. one created with `shared: true`, lets multiple instances work on the same data, see the
+     * `sharedWith` option of `spawnWorker`.
+     */
+    memory?: WebAssembly.Memory;
+
+    /**
+     * Address of the stack and thread local storage of this instance within a shared memory. Each instance on the same
+     * memory needs its own, which is allocated by the instance sharing its memory. This is set by `spawnWorker`.
+     */
+    thread?: number;
+}
+
+/**
+ * The levels of logged messages, from the most to the least verbose.
+ */
+export type InterplayLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Receives logged messages by their level, e.g. the console.
+ */
+export type InterplayLogger = {[level in InterplayLogLevel]: (message: string) => void};
+
+/**
+ * A call to an export that is about to start.
+ */
+export interface InterplayCallEvent {
+    exportName: string;
+    args: any[];
+}
+
+/**
+ * A finished call to an export. All times are in milliseconds.
+ */
+export interface InterplayReturnEvent extends InterplayCallEvent {
+    /**
+     * The decoded return, which is missing if the call failed.
+     */
+    result?: any;
+    error?: unknown;
+    /**
+     * Start of the call as `performance.now()` timestamp.
+     */
+    start: number;
+    encodeTime: number;
+    callTime: number;
+    decodeTime: number;
+    /**
+     * Bytes allocated within the WASM memory during the call. Allocations of Zig are only included in debug mode.
+     */
+    bytesAllocated: number;
+}
+
+/**
+ * A finished call of a JS function or host import by Zig. All times are in milliseconds.
+ */
+export interface InterplayCallbackEvent {
+    /**
+     * Name of the function or host import.
+     */
+    name: string;
+    args: any[];
+    result?: any;
+    error?: unknown;
+    start: number;
+    duration: number;
+}
+
+/**
+ * Hooks that are notified about each call crossing the boundary. The hooks are called synchronously, so they should
+ * be fast and must not throw.
+ */
+export interface InterplayHooks {
+    onCall?(event: InterplayCallEvent): void;
+    onReturn?(event: InterplayReturnEvent): void;
+    onCallback?(event: InterplayCallbackEvent): void;
+}
+
+/**
+ * An iterator returned by Zig, see Iterator in interplay.zig. It is consumed with `for...of`, `for await...of` or as
+ * ReadableStream. Stopping early, e.g. with `break`, closes the iterator on the Zig side.
+ */
+export interface InterplayIterator extends Iterable<any>, AsyncIterable<any> {
+    /**
+     * Get the next value or undefined once the iterator is done. Passing any argument closes the iterator instead.
+     */
+    (close?: boolean): any;
+
+    /**
+     * Consume the iterator as a ReadableStream, e.g. to pipe the values to a file.
+     */
+    stream(): ReadableStream<any>;
+}
+
+/**
+ * Options for the debug mode of an InterplayInstance.
+ */
+export interface InterplayDebugOptions {
+    /**
+     * Called after a call to an export finished with the allocations made during the call that are still alive. Zig
+     * may keep allocations on purpose, e.g. for a cache, so these are only possible leaks. Defaults to a warning
+     * passed to the `logger` of the instance.
+     */
+    onLeak?: (exportName: string, allocations: InterplayAllocation[]) => void;
+}
+
+/**
+ * An allocation within the WASM memory that is tracked in debug mode.
+ */
+export interface InterplayAllocation {
+    ptr: number;
+    size: number;
+    /**
+     * Whether the memory has been allocated by the JS side, e.g. for arguments, or by the Zig side.
+     */
+    origin: 'js' | 'zig';
+    /**
+     * Name of the export whose call caused the allocation. This is missing for allocations outside of any call.
+     */
+    exportName?: string;
+}
+
+/**
+ * The live allocations within the WASM memory, see `InterplayInstance.debug.memoryStats()`.
+ */
+export interface InterplayMemoryStats {
+    count: number;
+    bytes: number;
+    allocations: InterplayAllocation[];
+    /**
+     * Number and size of the live allocations by the export whose call caused them.
+     */
+    byExport: {[exportName: string]: { count: number, bytes: number }};
+}
+
+/**
+ * The state of an InterplayInstance captured by `snapshot()`, which can be reapplied by `restore()`.
+ */
+export interface InterplaySnapshot {
+    /**
+     * Copy of the linear memory.
+     */
+    readonly memory: Uint8Array;
+
+    /**
+     * Values of the exported globals by name.
+     */
+    readonly globals: {[name: string]: any};
+}
+
+/**
+ * Options for spawning an InterplayInstance within a Web Worker.
+ */
+export interface InterplayWorkerOptions {
+    /**
+     * URL of the worker script, which needs to call `serveWorker()`. Defaults to the `worker.js` next to this file.
+     */
+    workerUrl?: string | URL;
+
+    /**
+     * Run the worker on the shared memory of this instance, so Zig on both sides works on the same data in parallel.
+     * The module has to be built with threads and shared memory, e.g. `-fno-single-threaded --shared-memory
+     * --import-memory`, and the instance has to be initialized with a shared memory via the `memory` option.
+     */
+    sharedWith?: InterplayInstance;
+}
+
+/**
+ * The exports of an InterplayInstance running within a Web Worker. Each export returns a promise of its return.
+ */
+export type InterplayWorker<T = never> = ([T] extends [never] ? {[key: string]: (...args: any[]) => Promise<any>} : AsyncExports<T>) & {
+    /**
+     * Stop the worker immediately. Pending calls are rejected.
+     */
+    terminate(): void;
+};
+
+/**
+ * An instance typed with the given exports, e.g. generated by `interplay-dts`. Without any exports given, this is just
+ * the untyped InterplayInstance. The index signature is dropped for typed instances, so unknown exports are rejected.
+ */
+export type TypedInterplayInstance<T> = [T] extends [never] ? InterplayInstance : Omit<{
+    [K in keyof InterplayInstance as string extends K ? never : K]: InterplayInstance[K]
+}, 'async'> & T & { readonly async: AsyncExports<T> };
+
 export default class InterplayInstance {
     /**
      * Hold the exports of the WASM instance. This is the core of this wrapper functionality.
      */
     #wasm: WebAssembly.Exports = undefined;
 
+    /**
+     * The linear memory of the WASM instance, which is either exported by the module or provided by the options.
+     */
+    #memory: WebAssembly.Memory = undefined;
+
+    /**
+     * Number of bits of a pointer within the interplay types, 32bit for memory32 and 64bit for memory64.
+     */
+    #pointerBits = 32;
+
+    /**
+     * Number of bits of a length within the interplay types. On memory64 lengths are cut to fit into the remaining bits.
+     */
+    #lengthBits = 32;
+
+    /**
+     * Number of bits of the length of a typed array, which needs to fit its element kind as well.
+     */
+    #typedArrayLengthBits = 32;
+
+    /**
+     * The options this instance has been initialized with.
+     */
+    #options: InterplayOptions;
+
+    /**
+     * Scratch area for encoding and decoding interplay types without BigInt arithmetic. The first 16 bytes hold the
+     * interplay type itself and the remaining 8 bytes are used to convert floats. NOTE: This is not part of the WASM
+     * memory, as any view of it is detached as soon as the memory grows.
+     */
+    #scratch = new DataView(new ArrayBuffer(24));
+
     /**
      * Central Text Decoder instance for converting bytes to string.
      */
@@ -28,553 +302,2991 @@ export default class InterplayInstance {
 
     /**
      * Table to assign a number to a JavaScript function in order to remember
-     * it by an unique id and being able to call it again if necessary.
+     * it by an unique id and being able to call it again if necessary. Each
+     * entry counts its references and is removed as soon as there are none left.
+     */
+    #functionTable: {[key: number]: { value: Function, refs: number, name?: string }} = {};
+
+    /**
+     * Next id to assign to a JavaScript function. Ids are never reused, so a stale
+     * reference can never call the wrong function.
+     */
+    #nextFunctionId = 0;
+
+    /**
+     * Releases the references held by retained function objects that have been garbage collected without being
+     * released explicitly.
+     */
+    #functionRegistry = new FinalizationRegistry<{ id: number, refs: { count: number } }>(({ id, refs }) => {
+        for(; refs.count > 0; refs.count--) {
+            this.#releaseFunction(id);
+        }
+    });
+
+    /**
+     * Table to assign a number to a JavaScript object that is passed to Zig as an opaque handle. Each entry counts its
+     * references and is removed as soon as there are none left.
+     */
+    #handleTable: {[key: number]: { value: object, refs: number }} = {};
+
+    /**
+     * Next id to assign to a handle. Ids are never reused.
+     */
+    #nextHandleId = 0;
+
+    /**
+     * Table of promises that are referenced from the Zig side by an unique id. Just like handles, each entry counts its
+     * references and is removed as soon as there are none left.
+     */
+    #promiseTable: {[key: number]: { value: Promise<any>, refs: number }} = {};
+
+    /**
+     * Resolvers of the pending promises that have been created on the Zig side and need to be settled by Zig.
+     */
+    #deferredTable: {[key: number]: { resolve: (value: any) => void, reject: (reason: any) => void }} = {};
+
+    /**
+     * Next id to assign to a promise. Ids are never reused.
      */
-    #functionTable: {[key: number]: Function} = {};
+    #nextPromiseId = 0;
+
+    /**
+     * Records the allocations within the WASM memory in debug mode.
+     */
+    #tracker: AllocationTracker = undefined;
+
+    /**
+     * The hooks that are notified about each call crossing the boundary.
+     */
+    #hooks: InterplayHooks[] = [];
+
+    /**
+     * Total number of bytes allocated within the WASM memory that we know of, to measure the allocations of each call.
+     */
+    #allocatedBytes = 0;
+
+    /**
+     * Whether we are allocating within the WASM memory ourselves. Zig reports these allocations as well while tracking is
+     * enabled, but they are recorded by us already.
+     */
+    #allocating = false;
+
+    /**
+     * Signatures of the exports that have been exported with `exportSignature`. Arguments of these exports are validated
+     * and converted to the expected interplay types before calling them.
+     */
+    #signatures: {[name: string]: ExportSignature} = {};
+
+    /**
+     * The function, handle and promise tables at the time of each snapshot, as the WASM memory references their entries
+     * by id.
+     */
+    #snapshotTables = new WeakMap<InterplaySnapshot, {
+        functions: {[key: number]: { value: Function, refs: number, name?: string }},
+        handles: {[key: number]: { value: object, refs: number }},
+        promises: {[key: number]: { value: Promise<any>, refs: number }},
+        allocations?: Map<number, TrackedAllocation>,
+    }>();
+
+    /**
+     * The async variants of the functions from the WASM exports, which resolve promises returned by Zig.
+     */
+    readonly async: {[key: string]: (...args) => Promise<any>} = {};
+
+    /**
+     * Insights into the WASM memory, which are only available in debug mode.
+     */
+    readonly debug = {
+        /**
+         * Get the live allocations within the WASM memory. Allocations of the Zig side are only tracked if the module
+         * has been built against a version of interplay.zig that reports them.
+         *
+         * @returns the live allocations
+         */
+        memoryStats: (): InterplayMemoryStats => {
+            if(!this.#tracker) {
+                throw new Error('Memory stats are only available in debug mode.');
+            }
+
+            return this.#tracker.stats();
+        },
+    };
 
     /**
      * There will be functions assigned by name from the WASM exports and made accessible directly.
      */
-    [key: string]: Function;
+    [key: string]: any;
 
     /**
      * Initialize a new Wrapper instance from an url which is loaded in async via fetch.
      * 
      * @param wasmUrl URL to given wasm file that should be loaded
+     * @param options options for the new instance
      * @returns new instance of the ZigWASMWrapper for this wasm file
      */
-    static async initializeFromUrl(wasmUrl: URL): Promise<InterplayInstance> {
-        const rawWasm = await fetch(wasmUrl).then(resp => resp.arrayBuffer());
-
-        return this.initialize(rawWasm);
+    static async initializeFromUrl<T = never>(wasmUrl: URL | string, options: InterplayOptions = {}): Promise<TypedInterplayInstance<T>> {
+        return this.initializeFromResponse<T>(fetch(wasmUrl), options);
     }
 
     /**
-     * Initialize a new Wrapper directly from the raw WASM bytes.
-     * 
-     * @param rawModule raw bytes of the wasm module to initialize
+     * Initialize a new Wrapper from a response, e.g. returned by fetch. The module is compiled while it is still being
+     * downloaded, if the response is served with the `application/wasm` content type.
+     *
+     * @param response response of the wasm file that should be loaded
+     * @param options options for the new instance
      * @returns new instance of the ZigWASMWrapper for this wasm file
      */
-    static async initialize(rawModule: BufferSource): Promise<InterplayInstance> {
-        const inst = new this();
+    static async initializeFromResponse<T = never>(response: Response | PromiseLike<Response>, options: InterplayOptions = {}): Promise<TypedInterplayInstance<T>> {
+        const resp = await response;
 
-        const obj = await WebAssembly.instantiate(rawModule, {
-            js: {
-                log: (arg: InterplayTypeHalf, arg2: InterplayTypeHalf) => {
-                    let message = inst.#decodeInterplayType([arg, arg2]).value;
-                    console.log(message);
-                },
-                call: (func: InterplayTypeHalf, func2: InterplayTypeHalf, args: InterplayTypeHalf, args2: InterplayTypeHalf) => {
-                    let f = inst.#decodeInterplayType([func, func2]).value;
+        if(!resp.ok) {
+            throw new Error(`Failed to load WASM module (status ${resp.status}).`);
+        }
 
-                    if(Object.getPrototypeOf(f).origin != 1) {
-                        throw new Error('Function to be executed in JS expected to be of JS origin.');
-                    }
+        // Streaming requires the correct content type, so we fallback to the raw bytes otherwise
+        if(typeof WebAssembly.instantiateStreaming !== 'function' || !resp.headers.get('Content-Type')?.startsWith('application/wasm')) {
+            return this.initialize<T>(await resp.arrayBuffer(), options);
+        }
 
-                    let a = inst.#decodeInterplayType([args, args2]).value;
+        const inst = new this(options);
 
-                    return inst.#encodeInterplayType(f(...a));
-                }
-            },
-        })
+        const obj = await WebAssembly.instantiateStreaming(resp, inst.#createImports());
 
-        inst.#loadWasmObj(obj);
+        inst.#loadWasmObj(obj.instance);
 
-        return inst;
+        return inst as TypedInterplayInstance<T>;
     }
 
-    constructor() {}
+    /**
+     * Initialize a new Wrapper from a file path. This is only supported in server side environments like Node.js, which
+     * provide the `node:fs` module.
+     *
+     * @param wasmPath path to the wasm file that should be loaded
+     * @param options options for the new instance
+     * @returns new instance of the ZigWASMWrapper for this wasm file
+     */
+    static async initializeFromFile<T = never>(wasmPath: string | URL, options: InterplayOptions = {}): Promise<TypedInterplayInstance<T>> {
+        const { readFile } = await import('node:fs/promises');
+
+        return this.initialize<T>(await readFile(wasmPath), options);
+    }
 
     /**
-     * This function does some initialization for a loaded WASM module and raises the WASM exports to functions directly
-     * accessible from this very class instance via the interplay wrapper.
+     * Initialize a new Wrapper directly from the raw WASM bytes or an already compiled module. A compiled module can be
+     * used to create multiple instances without compiling it again.
      * 
-     * @param obj the instantiated WASM source for which this class has been created
+     * @param rawModule raw bytes of the wasm module or the compiled module to initialize
+     * @param options options for the new instance
+     * @returns new instance of the ZigWASMWrapper for this wasm file
      */
-    #loadWasmObj(obj: WebAssembly.WebAssemblyInstantiatedSource) {
-        this.#wasm = obj.instance.exports;
+    static async initialize<T = never>(rawModule: BufferSource | WebAssembly.Module, options: InterplayOptions = {}): Promise<TypedInterplayInstance<T>> {
+        const inst = new this(options);
 
-        // Expose the exported custom functions that are not implementation relevant
-        for (let name of Object.keys(this.#wasm).filter(n => !['malloc', 'free', 'memory', 'call'].includes(n))) {
-            // Make sure we only wrap exported functions
-            if(typeof this.#wasm[name] !== 'function') {
-                // TODO: Parse constants as well and expose them via getter methods.
-                console.warn('We currently only make exported functions accessible through the Interplay Wrapper.')
-                continue;
-            }
+        // NOTE: Instantiating a compiled module directly returns the instance
+        const instance = (rawModule instanceof WebAssembly.Module)
+            ? await WebAssembly.instantiate(rawModule, inst.#createImports())
+            : (await WebAssembly.instantiate(rawModule, inst.#createImports())).instance;
 
-            this[name] = this.#wrappedCallHandler(name)
-        }
+        inst.#loadWasmObj(instance);
+
+        return inst as TypedInterplayInstance<T>;
     }
 
     /**
-     * This not only returns a wrapped function handler, it also checks of the actual export is even a function that we could
-     * call. This should only be called if the caller is sure, the named export is actually a function.
-     * 
-     * @param funcName name of the exported wasm function to wrap
-     * @returns handler function for a wrapped call to the named function
+     * Initialize a new Wrapper within a Web Worker, so long running exports don't block the calling thread. The exports
+     * are available on the returned object and return promises. Bytes and typed arrays are moved to the worker instead
+     * of being copied, so they are not usable on the calling side anymore. JS functions passed as arguments stay on the
+     * calling side and are called from the worker, Zig receives a promise of their return.
+     *
+     * @param source URL of the wasm file, its raw bytes, which are copied, or the compiled module
+     * @param options options for the worker
+     * @returns the exports of the new instance within the worker
      */
-    #wrappedCallHandler(funcName: string): Function {
-        const wasmFunc = this.#wasm[funcName];
+    static async spawnWorker<T = never>(source: string | URL | BufferSource | WebAssembly.Module, options: InterplayWorkerOptions = {}): Promise<InterplayWorker<T>> {
+        // The worker gets its own stack within the shared memory, which is freed again once it has been terminated
+        const owner = options.sharedWith;
+        const thread = owner ? owner.#allocateThread() : undefined;
+        const freeThread = () => {
+            if(owner && owner.#wasm) (owner.#wasm.ipl_thread_free as (block: number) => void)(thread);
+        };
+
+        const worker = new Worker(options.workerUrl ?? new URL('./worker.js', import.meta.url), { type: 'module' });
+        const endpoint = new WorkerEndpoint(worker, {});
+
+        worker.onmessage = (e) => endpoint.receive(e.data);
+        worker.onerror = (e) => endpoint.close(new Error(`Worker failed: ${e.message}`));
+
+        // NOTE: URLs are loaded by the worker itself, relative to the calling side. Anything else is copied to it, raw
+        //       bytes explicitly, as they would be moved otherwise. So the same bytes can spawn multiple workers.
+        const isUrl = typeof source === 'string' || source instanceof URL;
+        const copy = (source instanceof ArrayBuffer) ? source.slice(0)
+            : ArrayBuffer.isView(source) ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+            : source;
+        const init = owner ? { memory: owner.#memory, thread } : {};
+        const exportNames: string[] = await endpoint.request('init', [isUrl ? new URL(source, globalThis.location?.href).href : copy, init]).catch((e) => {
+            worker.terminate();
+            freeThread();
+            throw e;
+        });
+
+        const exports = {
+            terminate: () => {
+                worker.terminate();
+                endpoint.close(new Error('Worker has been terminated.'));
+                // NOTE: Terminating a worker within a call to Zig may leave the memory in an inconsistent state
+                freeThread();
+            },
+        };
+        for(const name of exportNames) {
+            exports[name] = (...args) => endpoint.request('call', [name, ...args]);
+        }
 
-        // Verify the 
-        if(typeof wasmFunc !== 'function') throw new Error('WASM export is not callable!');
+        return exports as InterplayWorker<T>;
+    }
 
-        return (...args): any => {
-            return this.#wrappedCall(wasmFunc, ...args)
+    constructor(options: InterplayOptions = {}) {
+        this.#options = options;
+
+        if(options.debug) {
+            const onLeak = (typeof options.debug === 'object') ? options.debug.onLeak : undefined;
+            this.#tracker = new AllocationTracker(onLeak ?? ((exportName, allocations) => {
+                const bytes = allocations.reduce((sum, a) => sum + a.size, 0);
+                this.#log('warn', `Call to '${exportName}' left ${allocations.length} allocation(s) with ${bytes} byte(s) behind.`);
+            }));
+        }
+        if(options.hooks) {
+            this.#hooks.push(options.hooks);
         }
     }
 
     /**
-     * This function abstracts the complexity of calling a WASM exported function directly with JavaScript values of any kind
-     * without thinking about the Interplay Types. The arguments will be automatically converted and the return will be
-     * parsed. This means, there is no need to think about Interplay Types outside of these wrapped calls.
-     * 
-     * It is important to not ate this point, allocated resources for converting JavaScript values to Interplay Types will be
-     * automatically freed after the call to the underlying WASM function finished. Values used within the WASM module after
-     * their use within the function block, should not be done. Instead a full copy of that value is necessary.
-     * 
-     * @param func name of the function from the WASM exports
-     * @param args arguments that should be converted to Interplay Types
-     * @returns parsed Interplay Type from the return value of that function
+     * Add hooks that are notified about each call to an export and each call of a JS function by Zig, e.g. an
+     * `InterplayTracer`. Measuring the calls adds a small overhead to every call, as long as any hook is added.
+     *
+     * @param hooks the hooks to add
+     * @returns a function removing the hooks again
      */
-    #wrappedCall(func: Function, ...args) {
-        // Encode the arguments to interplay types.
-        const wasmArgs = args.map(a => this.#encodeInterplayType(a))
+    addHooks(hooks: InterplayHooks): () => void {
+        this.#hooks.push(hooks);
 
-        // Call the underlying function with a flatten array of the encoded types.
-        // The exported wasm functions only accept direct arguments, no arrays or other types.
-        const r = func(...wasmArgs.flat());
+        return () => {
+            this.#hooks = this.#hooks.filter(h => h !== hooks);
+        };
+    }
 
-        // Free each previosuly argument if there has been an allocation
-        for(let i = 0; i < wasmArgs.length; i++) {
-            this.#freeEncodedInterplayType(wasmArgs[i]);
+    /**
+     * Tear down this instance. All references to JS functions and handles held by Zig are released, pending promises
+     * created by Zig are rejected and any further call to an export throws. In debug mode, the allocations of the JS side
+     * that are still alive are freed as well, unless the memory is shared.
+     */
+    dispose() {
+        if(!this.#wasm) return;
+
+        // Only our own allocations are freed, Zig may still use its own ones, e.g. within globals. A shared memory is left
+        // untouched, as other instances keep using it.
+        const shared = typeof SharedArrayBuffer !== 'undefined' && this.#memory.buffer instanceof SharedArrayBuffer;
+        for(const { ptr, size, alignment } of (shared ? [] : this.#tracker?.owned() ?? [])) {
+            this.#wasmFree(ptr, size, alignment);
         }
 
-        // Correctly decode thhe optional return of the wasm function
-        const wasmReturn = r ? this.#decodeInterplayType(r).value : undefined;
-
-        // Free the interplay type of the return if present and after decoding
-        if(wasmReturn) {
-            this.#freeEncodedInterplayType(r);
+        const error = new Error('InterplayInstance has been disposed.');
+        for(const deferred of Object.values(this.#deferredTable)) {
+            deferred.reject(error);
         }
 
-        // There is no need for the wasm function to return something. So we only decode interplay types if we received
-        // an actual value as a return.
-        return wasmReturn;
+        this.#functionTable = {};
+        this.#handleTable = {};
+        this.#promiseTable = {};
+        this.#deferredTable = {};
+        this.#wasm = undefined;
+        this.#memory = undefined;
     }
 
     /**
-     * Each InterplayType in Zig is a packed struct of size u128 of which the first 4bit are its type notation. The
-     * reamaining bits can be used as desired for each type, requireing to parse different sections of different use
-     * and size. This function abstracts this to avoid repeating code but introducing a small performance penalty.
+     * Dispose this instance at the end of a `using` block, see `dispose()`.
+     */
+    [Symbol.dispose]() {
+        this.dispose();
+    }
+
+    /**
+     * Capture the linear memory and the exported globals, e.g. to reset the Zig state between test cases or to undo
+     * changes. References to JS functions, handles and promises held by Zig are captured as well, the resolvers of
+     * pending promises created by Zig are not.
+     *
+     * @returns the captured state
+     */
+    snapshot(): InterplaySnapshot {
+        this.#assertNotDisposed();
+
+        const globals: {[name: string]: any} = {};
+        for(const [name, exported] of Object.entries(this.#wasm)) {
+            if(exported instanceof WebAssembly.Global) globals[name] = exported.value;
+        }
+
+        const snapshot = { memory: new Uint8Array(this.#memory.buffer).slice(), globals };
+        this.#snapshotTables.set(snapshot, {
+            functions: copyTable(this.#functionTable),
+            handles: copyTable(this.#handleTable),
+            promises: copyTable(this.#promiseTable),
+            allocations: this.#tracker?.snapshot(),
+        });
+
+        return snapshot;
+    }
+
+    /**
+     * Reapply a state captured by `snapshot()`. Snapshots of another instance of the same module can be restored as
+     * well, but references to JS functions and handles within them are not valid for this instance.
+     *
+     * @param snapshot the captured state
+     */
+    restore(snapshot: InterplaySnapshot) {
+        this.#assertNotDisposed();
+
+        const memory = this.#memory;
+        const missing = snapshot.memory.byteLength - memory.buffer.byteLength;
+        if(missing > 0) {
+            memory.grow(Math.ceil(missing / wasmPageSize));
+        }
+
+        // NOTE: The memory can't shrink, so pages added after the snapshot are cleared instead
+        const view = new Uint8Array(memory.buffer);
+        view.set(snapshot.memory);
+        view.fill(0, snapshot.memory.byteLength);
+
+        for(const [name, value] of Object.entries(snapshot.globals)) {
+            const exported = this.#wasm[name];
+            // Immutable globals can't have changed, so there is no need to set them
+            if(exported instanceof WebAssembly.Global && exported.value !== value) exported.value = value;
+        }
+
+        const tables = this.#snapshotTables.get(snapshot);
+        if(tables) {
+            // The tables are copied again, so the snapshot can be restored multiple times
+            this.#functionTable = copyTable(tables.functions);
+            this.#handleTable = copyTable(tables.handles);
+            this.#promiseTable = copyTable(tables.promises);
+            this.#tracker?.restore(tables.allocations);
+        }
+    }
+
+    /**
+     * Allocate the stack and thread local storage for another instance on the shared memory of this instance.
+     *
+     * @returns address of the allocated block, which is passed to the other instance as `thread` option
+     */
+    #allocateThread(): number {
+        this.#assertNotDisposed();
+
+        if(typeof SharedArrayBuffer === 'undefined' || !(this.#memory.buffer instanceof SharedArrayBuffer) || typeof this.#wasm.ipl_thread_alloc !== 'function') {
+            throw new Error('Sharing the memory requires a module built with threads and initialized with a shared memory.');
+        }
+
+        const block = Number((this.#wasm.ipl_thread_alloc as () => number)());
+        if(block === 0) {
+            throw new Error('Failed to allocate the stack of a thread.');
+        }
+
+        return block;
+    }
+
+    /**
+     * Make sure this instance has not been disposed yet.
+     */
+    #assertNotDisposed() {
+        if(!this.#wasm) {
+            throw new Error('InterplayInstance has been disposed.');
+        }
+    }
+
+    /**
+     * Create the imports the Zig side of Interplay expects from the JS environment.
+     *
+     * @returns the imports object for the instantiation of the WASM module
+     */
+    #createImports(): WebAssembly.Imports {
+        const inst = this;
+
+        const imports = {
+            js: {
+                log: (arg: InterplayTypeHalf, arg2: InterplayTypeHalf) => {
+                    let message = inst.#decodeInterplayType([arg, arg2]).value;
+                    inst.#log('info', message);
+                },
+                logWithLevel: (level: number, arg: InterplayTypeHalf, arg2: InterplayTypeHalf) => {
+                    // NOTE: The message is borrowed from Zig, see logFn in interplay.zig
+                    inst.#log(zigLogLevels[level] ?? 'info', inst.#decodeInterplayType([arg, arg2]).value);
+                },
+                call: (func: InterplayTypeHalf, func2: InterplayTypeHalf, args: InterplayTypeHalf, args2: InterplayTypeHalf) => {
+                    let f = inst.#decodeInterplayType([func, func2]).value;
+
+                    if(Object.getPrototypeOf(f).origin != 1) {
+                        throw new Error('Function to be executed in JS expected to be of JS origin.');
+                    }
+
+                    let a = inst.#decodeInterplayType([args, args2]).value;
+                    const { origin } = inst.#extractBitSections([args, args2], [
+                        ['ptr', this.#pointerBits],
+                        ['len', this.#lengthBits],
+                        ['origin', 1],
+                    ]);
+
+                    try {
+                        const name = inst.#functionTable[Object.getPrototypeOf(f).ptr]?.name;
+                        return inst.#encodeInterplayType(inst.#traceCallback(name, a, () => f(...a)));
+                    } finally {
+                        // Arguments created by Zig are ours now, but Zig may pass on arguments it received from us
+                        if(origin === 0) inst.#freeEncodedInterplayType([args, args2]);
+                    }
+                },
+                functionRetain: (func: InterplayTypeHalf, func2: InterplayTypeHalf) => {
+                    // NOTE: References held by Zig are not tracked by the finalization registry, Zig has to release them
+                    const { ptr, origin } = inst.#extractBitSections([func, func2], [
+                        ['ptr', this.#pointerBits],
+                        ['origin', 1],
+                    ]);
+
+                    if(origin === 1) inst.#retainFunction(Number(ptr));
+                },
+                functionRelease: (func: InterplayTypeHalf, func2: InterplayTypeHalf) => {
+                    const { ptr, origin } = inst.#extractBitSections([func, func2], [
+                        ['ptr', this.#pointerBits],
+                        ['origin', 1],
+                    ]);
+
+                    if(origin === 1) inst.#releaseFunction(Number(ptr));
+                },
+                handleGet: (handle: InterplayTypeHalf, handle2: InterplayTypeHalf, name: InterplayTypeHalf, name2: InterplayTypeHalf) => {
+                    // NOTE: Arguments of handle imports are borrowed from Zig, so there is nothing to free
+                    const obj = inst.#decodeInterplayType([handle, handle2]).value;
+                    const key = inst.#decodeInterplayType([name, name2]).value;
+
+                    return inst.#encodeInterplayType(obj[key]);
+                },
+                handleSet: (handle: InterplayTypeHalf, handle2: InterplayTypeHalf, name: InterplayTypeHalf, name2: InterplayTypeHalf, value: InterplayTypeHalf, value2: InterplayTypeHalf) => {
+                    const obj = inst.#decodeInterplayType([handle, handle2]).value;
+                    const key = inst.#decodeInterplayType([name, name2]).value;
+
+                    obj[key] = inst.#decodeInterplayType([value, value2]).value;
+                },
+                handleCall: (handle: InterplayTypeHalf, handle2: InterplayTypeHalf, name: InterplayTypeHalf, name2: InterplayTypeHalf, args: InterplayTypeHalf, args2: InterplayTypeHalf) => {
+                    const obj = inst.#decodeInterplayType([handle, handle2]).value;
+                    const key = inst.#decodeInterplayType([name, name2]).value;
+                    const a = inst.#decodeInterplayType([args, args2]).value;
+
+                    if(typeof obj[key] !== 'function') {
+                        throw new Error(`Method '${key}' of handle is not callable.`);
+                    }
+
+                    return inst.#encodeInterplayType(obj[key](...a));
+                },
+                handleRetain: (handle: InterplayTypeHalf, handle2: InterplayTypeHalf) => {
+                    const { id } = inst.#extractBitSections([handle, handle2], [
+                        ['id', 32],
+                    ]);
+
+                    inst.#retainTableEntry(inst.#handleTable, Number(id), 'Handle');
+                },
+                handleRelease: (handle: InterplayTypeHalf, handle2: InterplayTypeHalf) => {
+                    const { id } = inst.#extractBitSections([handle, handle2], [
+                        ['id', 32],
+                    ]);
+
+                    inst.#releaseTableEntry(inst.#handleTable, Number(id));
+                },
+                promiseCreate: () => {
+                    let deferred;
+                    const p = new Promise((resolve, reject) => { deferred = { resolve, reject } });
+                    const id = inst.#registerPromise(p);
+
+                    // Zig is responsible to settle this promise
+                    inst.#deferredTable[id] = deferred;
+
+                    // NOTE: Encoding the promise would register it once more, with an id that can't be settled
+                    return inst.#packBitSections([['type', 4, InterplayTypeId.promise], ['id', 32, id]]);
+                },
+                promiseRetain: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf) => {
+                    const { id } = inst.#extractBitSections([promise, promise2], [
+                        ['id', 32],
+                    ]);
+
+                    inst.#retainTableEntry(inst.#promiseTable, Number(id), 'Promise');
+                },
+                promiseRelease: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf) => {
+                    const { id } = inst.#extractBitSections([promise, promise2], [
+                        ['id', 32],
+                    ]);
+
+                    inst.#releaseTableEntry(inst.#promiseTable, Number(id));
+                },
+                promiseResolve: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf, value: InterplayTypeHalf, value2: InterplayTypeHalf) => {
+                    inst.#settlePromise([promise, promise2], [value, value2], false);
+                },
+                promiseReject: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf, reason: InterplayTypeHalf, reason2: InterplayTypeHalf) => {
+                    inst.#settlePromise([promise, promise2], [reason, reason2], true);
+                },
+                promiseThen: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf, func: InterplayTypeHalf, func2: InterplayTypeHalf) => {
+                    const p = inst.#decodeInterplayType([promise, promise2]).value as Promise<any>;
+                    const f = inst.#decodeInterplayType([func, func2]).value;
+
+                    return inst.#encodeInterplayType(p.then(value => f(value)));
+                },
+                promiseCatch: (promise: InterplayTypeHalf, promise2: InterplayTypeHalf, func: InterplayTypeHalf, func2: InterplayTypeHalf) => {
+                    const p = inst.#decodeInterplayType([promise, promise2]).value as Promise<any>;
+                    const f = inst.#decodeInterplayType([func, func2]).value;
+
+                    return inst.#encodeInterplayType(p.catch(reason => f(reason)));
+                },
+                allocated: (ptr: number|bigint, len: number|bigint) => {
+                    if(inst.#allocating) return;
+
+                    inst.#tracker?.allocated(Number(ptr), Number(len), 'zig');
+                    inst.#allocatedBytes += Number(len);
+                },
+                freed: (ptr: number|bigint) => {
+                    inst.#tracker?.freed(Number(ptr));
+                },
+                panic: (err: InterplayTypeHalf, err2: InterplayTypeHalf) => {
+                    // NOTE: The error details live on the Zig stack and are not owned by us, so there is nothing to free.
+                    const { zigError, message } = inst.#decodeInterplayType([err, err2]).value as InterplayError;
+
+                    throw createInterplayError(zigError, message, true);
+                }
+            },
+        };
+
+        // Modules built with `--import-memory` expect the memory from us
+        if(this.#options.memory) {
+            imports['env'] = { memory: this.#options.memory };
+        }
+
+        // Host functions are converted just like the exports
+        const hostImport = (name: string, hostFunc: (...args: any[]) => any) => (...halfs: InterplayTypeHalf[]) => {
+            // NOTE: Arguments of host functions are borrowed from Zig, so there is nothing to free
+            const args = [];
+            for(let i = 0; i < halfs.length; i += 2) {
+                args.push(inst.#decodeInterplayType([halfs[i], halfs[i + 1]]).value);
+            }
+
+            return inst.#encodeInterplayType(inst.#traceCallback(name, args, () => hostFunc(...args)));
+        };
+
+        // Add the host functions of the user
+        for(const [name, hostFunc] of Object.entries(this.#options.imports ?? {})) {
+            if(name in imports.js) {
+                throw new Error(`Import '${name}' collides with an import of Interplay itself.`);
+            }
+
+            imports.js[name] = hostImport(name, hostFunc);
+        }
+
+        // Add the host functions of other import modules, e.g. the exports of sibling modules linked by a registry
+        for(const [module, functions] of Object.entries(this.#options.modules ?? {})) {
+            if(module === 'js' || module === 'env') {
+                throw new Error(`Import module '${module}' is reserved for Interplay itself.`);
+            }
+
+            imports[module] = Object.fromEntries(Object.entries(functions).map(([name, f]) => [name, hostImport(`${module}.${name}`, f)]));
+        }
+
+        return imports;
+    }
+
+    /**
+     * This function does some initialization for a loaded WASM module and raises the WASM exports to functions directly
+     * accessible from this very class instance via the interplay wrapper.
      * 
-     * @param value the raw value of bits from where the section values will be extracted
-     * @param sections the sections in which exact order their values of X bits will be extracted
-     * @returns an object with the section name as key and extracted bits as value
+     * @param instance the instantiated WASM module for which this class has been created
      */
-    #extractBitSections(value: bigint, sections: Array<[string, number]>)  {
-        const r: {[key: string]: bigint} = {};
+    #loadWasmObj(instance: WebAssembly.Instance) {
+        this.#wasm = instance.exports;
+        this.#memory = (instance.exports.memory as WebAssembly.Memory) ?? this.#options.memory;
+
+        // Switch to our own stack before anything else runs, as the stack of the module is used by the instance sharing
+        // the memory with us
+        if(this.#options.thread !== undefined) {
+            if(typeof this.#wasm.ipl_thread_init !== 'function') {
+                throw new Error('Module has not been built with threads.');
+            }
+            (this.#wasm.ipl_thread_init as (block: number) => void)(this.#options.thread);
+        }
 
-        let bits = value;
-        for(const section of sections) {
-            r[section[0]] = BigInt.asUintN(section[1], bits);
-            bits >>= BigInt(section[1]);
+        // Modules without this export predate memory64 support and always use 32bit pointers
+        if(typeof this.#wasm.ipl_pointer_bits === 'function') {
+            this.#pointerBits = Number((this.#wasm.ipl_pointer_bits as () => number)());
         }
+        // See the Length types in interplay.zig, lengths are cut to fit the remaining bits
+        this.#lengthBits = (this.#pointerBits == 64) ? 59 : 32;
+        this.#typedArrayLengthBits = (this.#pointerBits == 64) ? 55 : 32;
 
-        return r;
+        // Let Zig report its own allocations as well. Older modules don't support this, so only our allocations are tracked.
+        if(this.#tracker && typeof this.#wasm.ipl_set_tracking === 'function') {
+            (this.#wasm.ipl_set_tracking as (enabled: number) => void)(1);
+        }
+
+        // Expose the exported custom functions that are not implementation relevant
+        for (let name of Object.keys(this.#wasm).filter(n => !['malloc', 'free', 'memory', 'call', 'ipl_pointer_bits', 'ipl_set_tracking', 'ipl_thread_alloc', 'ipl_thread_init', 'ipl_thread_free', 'ipl_stack_pointer', 'ipl_set_stack_pointer', 'ipl_alloc_aligned', 'ipl_free_aligned'].includes(n))) {
+            const exported = this.#wasm[name];
+
+            // Globals are exposed with their raw value. NOTE: Zig exports variables as globals holding their address.
+            if(exported instanceof WebAssembly.Global) {
+                Object.defineProperty(this, name, {
+                    get: () => exported.value,
+                    set: (v) => { exported.value = v },
+                    enumerable: true,
+                });
+                continue;
+            }
+
+            // Make sure we only wrap exported functions
+            if(typeof exported !== 'function') {
+                this.#log('warn', 'We currently only make exported functions and globals accessible through the Interplay Wrapper.');
+                continue;
+            }
+
+            // Constants are exported by Zig as functions returning their value, see exportConstant in interplay.zig
+            if(name.startsWith(constantExportPrefix)) {
+                const getConstant = this.#wrappedCallHandler(name);
+                Object.defineProperty(this, name.slice(constantExportPrefix.length), {
+                    get: () => getConstant(),
+                    enumerable: true,
+                });
+                continue;
+            }
+
+            // Signatures are exported by Zig as functions returning their type ids, see exportSignature in interplay.zig.
+            // NOTE: These are called directly, as they are part of loading and not a call of the user for hooks or the
+            //       tracker.
+            if(name.startsWith(signatureExportPrefix)) {
+                const [returns, ...params] = this.#decodeReturn(this.#callEncoded(exported, [])) as Uint8Array;
+                this.#signatures[name.slice(signatureExportPrefix.length)] = { returns, params };
+                continue;
+            }
+
+            this[name] = this.#wrappedCallHandler(name)
+            this.async[name] = this.#wrappedAsyncCallHandler(name)
+        }
+    }
+
+    /**
+     * This not only returns a wrapped function handler, it also checks of the actual export is even a function that we could
+     * call. This should only be called if the caller is sure, the named export is actually a function.
+     * 
+     * @param funcName name of the exported wasm function to wrap
+     * @returns handler function for a wrapped call to the named function
+     */
+    #wrappedCallHandler(funcName: string): Function {
+        const wasmFunc = this.#wasm[funcName];
+
+        // Verify the 
+        if(typeof wasmFunc !== 'function') throw new Error('WASM export is not callable!');
+
+        return (...args): any => {
+            return this.#wrappedCall(funcName, wasmFunc, ...args)
+        }
     }
 
-    // TODO: Implement this to avoid weird lines of code for encoding
-    #packBitSections(sections: Array<[string, number, bigint]>): bigint { return 0n }
+    /**
+     * This is the async equivalent of the wrapped call handler.
+     *
+     * @param funcName name of the exported wasm function to wrap
+     * @returns async handler function for a wrapped call to the named function
+     */
+    #wrappedAsyncCallHandler(funcName: string): (...args) => Promise<any> {
+        const wasmFunc = this.#wasm[funcName];
+
+        if(typeof wasmFunc !== 'function') throw new Error('WASM export is not callable!');
+
+        return (...args): Promise<any> => {
+            return this.#wrappedAsyncCall(funcName, wasmFunc, ...args)
+        }
+    }
 
     /**
-     * Detect the correct InterplayTypeId for any JS value. If the type is not supported, we throw an error.
+     * Create the function stepping through a JavaScript iterable for the Zig side, see Iterator in interplay.zig. Called
+     * without arguments it returns the next value, or a promise of it for async iterables, and undefined once it is
+     * done. Called with any argument it stops the iteration.
+     *
+     * @param iterable a ReadableStream, an async iterable or an iterator
+     * @returns the function stepping through the iterable
+     */
+    #iteratorStep(iterable: any): (args: any[]) => any {
+        // NOTE: ReadableStreams are not async iterable in every environment, so they are read with a reader instead
+        const iterator = (typeof iterable.getReader === 'function')
+            ? ((reader) => ({ next: () => reader.read(), return: () => reader.cancel() }))(iterable.getReader())
+            : (typeof iterable[Symbol.asyncIterator] === 'function') ? iterable[Symbol.asyncIterator]() : iterable;
+        const unwrap = (result: IteratorResult<any>) => result.done ? undefined : result.value;
+
+        return (args) => {
+            if(args.length > 0) {
+                iterator.return?.();
+                return undefined;
+            }
+
+            const result = iterator.next();
+            return (typeof result.then === 'function') ? result.then(unwrap) : unwrap(result);
+        };
+    }
+
+    /**
+     * Make a decoded iterator consumable as iterable, async iterable and ReadableStream. The iterator is called without
+     * arguments for the next value until it returns undefined and with an argument to stop early.
+     *
+     * @param step the decoded iterator function
+     */
+    #makeIterable(step: any) {
+        let done = false;
+        const next = () => {
+            if(done) return undefined;
+            const value = step();
+            if(value === undefined) done = true;
+            return value;
+        };
+        // NOTE: Zig frees its generator after the last value, so it must not be closed again afterwards
+        const close = () => {
+            if(done) return;
+            done = true;
+            step(true);
+        };
+
+        step[Symbol.iterator] = function* () {
+            try {
+                for(let value = next(); value !== undefined; value = next()) yield value;
+            } finally {
+                close();
+            }
+        };
+        step[Symbol.asyncIterator] = async function* () {
+            try {
+                // Values may be promises, e.g. of an async iterable of the JS side
+                for(let value = await next(); value !== undefined; value = await next()) yield value;
+            } finally {
+                close();
+            }
+        };
+        step.stream = () => new ReadableStream({
+            pull: async (controller) => {
+                const value = await next();
+                if(value === undefined) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            },
+            cancel: close,
+        });
+    }
+
+    /**
+     * Add a reference to a JavaScript function in the function table, so it stays callable.
+     *
+     * @param id id of the function within the function table
+     */
+    #retainFunction(id: number) {
+        this.#retainTableEntry(this.#functionTable, id, 'Function');
+    }
+
+    /**
+     * Remove a reference to a JavaScript function in the function table. The function is removed from the table as soon
+     * as there are no references left.
+     *
+     * @param id id of the function within the function table
+     */
+    #releaseFunction(id: number) {
+        this.#releaseTableEntry(this.#functionTable, id);
+    }
+
+    /**
+     * Add a reference to an entry of a reference counted table, like the function or handle table.
+     *
+     * @param table the table the entry belongs to
+     * @param id id of the entry within the table
+     * @param kind name of the kind of entries for the error message
+     */
+    #retainTableEntry(table: {[key: number]: { refs: number }}, id: number, kind: string) {
+        const entry = table[id];
+
+        if(!entry) {
+            throw new Error(`${kind} ${id} has already been released.`);
+        }
+        entry.refs++;
+    }
+
+    /**
+     * Remove a reference to an entry of a reference counted table. The entry is removed as soon as there are no
+     * references left.
+     *
+     * @param table the table the entry belongs to
+     * @param id id of the entry within the table
+     */
+    #releaseTableEntry(table: {[key: number]: { refs: number }}, id: number) {
+        const entry = table[id];
+
+        if(entry && --entry.refs <= 0) {
+            delete table[id];
+        }
+    }
+
+    /**
+     * Assign an unique id to a promise so it can be referenced from the Zig side. The promise is referenced once by the
+     * returned id, see `#releaseTableEntry`. Settled promises are kept, so Zig can still chain on them.
+     *
+     * @param promise the promise to register
+     * @returns the id assigned to the promise
+     */
+    #registerPromise(promise: Promise<any>): number {
+        const id = this.#nextPromiseId++;
+        this.#promiseTable[id] = { value: promise, refs: 1 };
+
+        return id;
+    }
+
+    /**
+     * Settle a promise that has been created by the Zig side. The value is owned by us and freed after decoding.
+     *
+     * @param promise interplay type of the promise to settle
+     * @param value interplay type of the value or reason to settle with
+     * @param rejected whether the promise should be rejected instead of resolved
+     */
+    #settlePromise(promise: InterplayType, value: InterplayType, rejected: boolean) {
+        const { id } = this.#extractBitSections(promise, [
+            ['id', 32],
+        ]);
+        const deferred = this.#deferredTable[Number(id)];
+
+        if(!deferred) {
+            throw new Error(`Promise ${id} is unknown or has already been settled.`);
+        }
+        delete this.#deferredTable[Number(id)];
+
+        const v = this.#decodeInterplayType(value).value;
+        this.#freeEncodedInterplayType(value);
+
+        if(rejected) {
+            deferred.reject(v);
+        } else {
+            deferred.resolve(v);
+        }
+    }
+
+    /**
+     * This function abstracts the complexity of calling a WASM exported function directly with JavaScript values of any kind
+     * without thinking about the Interplay Types. The arguments will be automatically converted and the return will be
+     * parsed. This means, there is no need to think about Interplay Types outside of these wrapped calls.
      * 
-     * @param value the value of which the InterplayTypeId should be detected from
-     * @returns the detected InterplayTypeId
+     * It is important to not ate this point, allocated resources for converting JavaScript values to Interplay Types will be
+     * automatically freed after the call to the underlying WASM function finished. Values used within the WASM module after
+     * their use within the function block, should not be done. Instead a full copy of that value is necessary.
+     * 
+     * @param name name of the export that is called
+     * @param func name of the function from the WASM exports
+     * @param args arguments that should be converted to Interplay Types
+     * @returns parsed Interplay Type from the return value of that function
      */
-    #mapValueToInterplayTypeId(value: any): InterplayTypeId {
-        switch (typeof value) {
-            case 'string':
-                return InterplayTypeId.string;
-            case 'number':
-                return ((value % 1) === 0) ? (value < 0) ? InterplayTypeId.int : InterplayTypeId.uint : InterplayTypeId.float;
-            case 'bigint':
-                return (value < 0n) ? InterplayTypeId.int : InterplayTypeId.uint;
-            case 'boolean':
-                return InterplayTypeId.bool;
-            case 'symbol':
-                throw new Error(`type '${typeof value}' (value '${String(value)}') not implemented`)
-            case 'undefined':
-                return InterplayTypeId.void;
-            case 'object': {
-                if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
-                    return InterplayTypeId.bytes;
+    #wrappedCall(name: string, func: Function, ...args) {
+        this.#assertNotDisposed();
+        const call = this.#tracker?.enter(name);
+        const trace = this.#startTrace(name, args);
+
+        try {
+            const wasmArgs = this.#encodeArguments(this.#coerceArguments(name, args));
+            trace?.encoded();
+
+            try {
+                const encodedResult = this.#callEncoded(func, wasmArgs);
+                trace?.called();
+
+                return trace ? trace.finish(this.#decodeReturn(encodedResult)) : this.#decodeReturn(encodedResult);
+            } finally {
+                // Free each previosuly encoded argument if there has been an allocation, even if the call failed
+                for(let i = 0; i < wasmArgs.length; i++) {
+                    this.#freeEncodedInterplayType(wasmArgs[i]);
                 }
-                if(Array.isArray(value)) {
-                    return InterplayTypeId.array;
+            }
+        } catch(e) {
+            trace?.fail(e);
+            throw e;
+        } finally {
+            this.#tracker?.finish(call);
+        }
+    }
+
+    /**
+     * This is the async equivalent of the wrapped call. If the WASM function returns a promise, it is awaited and its
+     * value is returned instead. The difference is, that the encoded arguments are kept alive until the returned promise
+     * has been settled. This allows the Zig side to continue to work with them in callbacks of JavaScript promises.
+     *
+     * @param name name of the export that is called
+     * @param func name of the function from the WASM exports
+     * @param args arguments that should be converted to Interplay Types
+     * @returns promise of the parsed Interplay Type from the return value of that function
+     */
+    async #wrappedAsyncCall(name: string, func: Function, ...args) {
+        this.#assertNotDisposed();
+        const call = this.#tracker?.enter(name);
+        const trace = this.#startTrace(name, args);
+
+        try {
+            const wasmArgs = this.#encodeArguments(this.#coerceArguments(name, args));
+            trace?.encoded();
+
+            try {
+                const encodedResult = this.#callEncoded(func, wasmArgs);
+                trace?.called();
+                const result = this.#decodeReturn(encodedResult);
+                trace?.decoded();
+                // Allocations of other calls while waiting for the result are not caused by this call
+                this.#tracker?.leave(call);
+
+                return trace ? trace.finish(await result) : await result;
+            } finally {
+                // Free each previosuly encoded argument if there has been an allocation, even if the call failed
+                for(let i = 0; i < wasmArgs.length; i++) {
+                    this.#freeEncodedInterplayType(wasmArgs[i]);
                 }
-                return InterplayTypeId.json;
             }
-            case 'function':
-                return InterplayTypeId.function;
-            default:
-                // NOTE: This is just in case, this should be unreachable
-                throw new Error(`type '${typeof value}' not implemented`)
+        } catch(e) {
+            trace?.fail(e);
+            throw e;
+        } finally {
+            this.#tracker?.finish(call);
         }
     }
 
     /**
-     * Decode a given Interplay Type to its JavaScript value. Any allocations done to the interplay type can be freed
-     * after this call, as the return value does not depend on the origin value.
-     * 
-     * @param value interplay type to decode
-     * @returns decoded interplay type as javascript value
+     * Start measuring a call to an export for the hooks. Nothing is measured as long as there are no hooks.
+     *
+     * @param name name of the export that is called
+     * @param args arguments of the call
+     * @returns the measured call or undefined without hooks
      */
-    #decodeInterplayType(value: InterplayType): any {
-        // Merge the interplay type to a single u128 value
-        const ipl = BigInt.asUintN(64, value[0]) | (BigInt.asUintN(64, value[1]) << 64n);
+    #startTrace(name: string, args: any[]): CallTrace | undefined {
+        if(this.#hooks.length === 0) return undefined;
+
+        const hooks = this.#hooks;
+        for(const h of hooks) h.onCall?.({ exportName: name, args });
+
+        return new CallTrace(name, args, () => this.#allocatedBytes, (event) => {
+            for(const h of hooks) h.onReturn?.(event);
+        });
+    }
+
+    /**
+     * Call a JS function or host import on behalf of Zig and notify the hooks about it.
+     *
+     * @param name name of the function or host import
+     * @param args decoded arguments of the call
+     * @param callback the actual call
+     * @returns the return of the call
+     */
+    #traceCallback(name: string, args: any[], callback: () => any): any {
+        if(this.#hooks.length === 0) return callback();
+
+        const hooks = this.#hooks;
+        const start = performance.now();
+        const notify = (outcome: { result?: any, error?: unknown }) => {
+            const event = { name, args, ...outcome, start, duration: performance.now() - start };
+            for(const h of hooks) h.onCallback?.(event);
+        };
+
+        try {
+            const result = callback();
+            notify({ result });
+            return result;
+        } catch(error) {
+            notify({ error });
+            throw error;
+        }
+    }
+
+    /**
+     * Pass a message to the logger, unless it is below the configured level.
+     *
+     * @param level level of the message
+     * @param message the message
+     */
+    #log(level: InterplayLogLevel, message: string) {
+        const minimum = this.#options.logLevel ?? 'debug';
+        if(minimum === 'silent' || logLevels.indexOf(level) < logLevels.indexOf(minimum)) return;
+
+        (this.#options.logger ?? consoleLogger)[level](message);
+    }
+
+    /**
+     * Validate the arguments of a wrapped call against the signature of the export, if Zig exported one. Arguments are
+     * converted to the expected interplay type where possible, e.g. a number to an int or a string to bytes.
+     *
+     * @param name name of the export that is called
+     * @param args arguments of the call
+     * @returns the arguments with their expected interplay types
+     */
+    #coerceArguments(name: string, args: any[]): any[] {
+        const signature = this.#signatures[name];
+        if(!signature) return args;
+
+        if(args.length > signature.params.length) {
+            throw new InterplayTypeError(`Export '${name}' expects ${signature.params.length} arguments, got ${args.length}.`);
+        }
+
+        return signature.params.map((param, i) => this.#coerceValue(args[i], param, `Argument ${i} of export '${name}'`));
+    }
+
+    /**
+     * Convert a value to the interplay type of a signature. Values that can't be converted are rejected.
+     *
+     * @param value the value to convert
+     * @param expected the type within the signature, see exportSignature in interplay.zig
+     * @param description description of the value for the error message
+     * @returns the value wrapped with its expected interplay type
+     */
+    #coerceValue(value: any, expected: number, description: string): any {
+        if(expected === signatureAny) return value;
+
+        const type: InterplayTypeId = expected & 0x0f;
+        // Optional values accept null and undefined, which are both passed as null
+        if((expected & signatureOptional) && (value === null || value === undefined)) return null;
+        // Explicitly typed values are trusted as long as their type matches
+        if(value instanceof InterplayValue && value.type === type) return value;
+
+        const reject = (): never => {
+            const actual = (value === null) ? 'null' : (value instanceof InterplayValue) ? InterplayTypeId[value.type] : typeof value;
+            throw new InterplayTypeError(`${description} expects ${InterplayTypeId[type]}, got ${actual}.`);
+        };
+        const isInteger = (v: any) => (typeof v === 'bigint') || (typeof v === 'number' && Number.isInteger(v));
+        // Integers are passed within the 124bit of an interplay type, which is also their width on the Zig side
+        const checkRange = (min: bigint, max: bigint) => {
+            if(BigInt(value) < min || BigInt(value) > max) {
+                throw new InterplayTypeError(`${description} expects ${InterplayTypeId[type]}, got ${value} which is out of its range.`);
+            }
+            return new InterplayValue(type, value);
+        };
+
+        switch(type) {
+            case InterplayTypeId.void:
+                if(value === undefined || value === null) return value;
+                break;
+            case InterplayTypeId.bool:
+                if(typeof value === 'boolean') return value;
+                break;
+            case InterplayTypeId.int:
+                if(isInteger(value)) return checkRange(-(1n << 123n), (1n << 123n) - 1n);
+                break;
+            case InterplayTypeId.uint:
+                if(isInteger(value) && value >= 0) return checkRange(0n, (1n << 124n) - 1n);
+                break;
+            case InterplayTypeId.float:
+                if(typeof value === 'number') return new InterplayValue(type, value);
+                // Bigints are only converted if no precision is lost
+                if(typeof value === 'bigint') {
+                    if(BigInt(Number(value)) !== value) {
+                        throw new InterplayTypeError(`${description} expects float, got ${value} which can't be represented exactly.`);
+                    }
+                    return new InterplayValue(type, Number(value));
+                }
+                break;
+            case InterplayTypeId.bytes:
+                if(typeof value === 'string') return this.#textEncoder.encode(value);
+                if(value instanceof Uint8Array || value instanceof ArrayBuffer) return new InterplayValue(type, value);
+                break;
+            case InterplayTypeId.string:
+                if(typeof value === 'string') return value;
+                break;
+            case InterplayTypeId.json:
+                // Anything but undefined has a JSON representation
+                if(value !== undefined) return new InterplayValue(type, value);
+                break;
+            case InterplayTypeId.cbor:
+                if(typeof value !== 'function' && typeof value !== 'symbol') return new InterplayValue(type, value);
+                break;
+            case InterplayTypeId.function:
+                if(typeof value === 'function' || isIterableSource(value)) return value;
+                break;
+            case InterplayTypeId.array:
+                if(Array.isArray(value)) return value;
+                break;
+            case InterplayTypeId.error:
+                if(value instanceof Error) return value;
+                break;
+            case InterplayTypeId.promise:
+                // Any other value is passed as an already resolved promise
+                return (value && typeof value.then === 'function') ? value : Promise.resolve(value);
+            case InterplayTypeId.struct:
+                if(value instanceof Map) return value;
+                if(value !== null && typeof value === 'object' && isPlainObject(value)) {
+                    return new Map(Object.entries(value));
+                }
+                break;
+            case InterplayTypeId.typedarray:
+                if(ArrayBuffer.isView(value) && !(value instanceof DataView)) return new InterplayValue(type, value);
+                break;
+            case InterplayTypeId.handle:
+                if((value !== null && typeof value === 'object') || typeof value === 'function') return new InterplayValue(type, value);
+                break;
+        }
+
+        return reject();
+    }
+
+    /**
+     * Encode the arguments of a wrapped call to interplay types. If the encoding of any argument fails, the previously
+     * encoded arguments are freed again.
+     *
+     * @param args arguments that should be converted to Interplay Types
+     * @returns the encoded arguments
+     */
+    #encodeArguments(args: any[]): InterplayType[] {
+        const wasmArgs: InterplayType[] = [];
+
+        try {
+            for(const a of args) {
+                wasmArgs.push(this.#encodeInterplayType(a));
+            }
+        } catch(e) {
+            for(let i = 0; i < wasmArgs.length; i++) {
+                this.#freeEncodedInterplayType(wasmArgs[i]);
+            }
+            throw e;
+        }
+
+        return wasmArgs;
+    }
+
+    /**
+     * Call the underlying WASM function with already encoded arguments. Traps of the WASM module are converted to
+     * InterplayErrors.
+     *
+     * @param func name of the function from the WASM exports
+     * @param wasmArgs encoded arguments to pass
+     * @returns the raw return of the WASM function
+     */
+    #callEncoded(func: Function, wasmArgs: InterplayType[]): InterplayType | undefined {
+        // Older modules don't export their stack pointer, see ipl_stack_pointer in interplay.zig
+        const stackPointer = (this.#wasm.ipl_stack_pointer as (() => number | bigint) | undefined)?.();
+
+        try {
+            // Call the underlying function with a flatten array of the encoded types.
+            // The exported wasm functions only accept direct arguments, no arrays or other types.
+            return func(...wasmArgs.flat());
+        } catch(e) {
+            // Throwing unwinds the call without the stack pointer being restored by Zig, which would leak the stack
+            if(stackPointer !== undefined) {
+                (this.#wasm.ipl_set_stack_pointer as (addr: number | bigint) => void)(stackPointer);
+            }
+
+            // A trap that did not go through the panic import of Zig, e.g. an `unreachable` or a module without the
+            // panic handler exported.
+            if(e instanceof WebAssembly.RuntimeError) {
+                throw new InterplayPanicError(e.message, undefined, { cause: e });
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Decode and free the raw return of a WASM function call. Errors returned by Zig are thrown.
+     *
+     * @param r the raw return of the WASM function
+     * @returns parsed Interplay Type from the return value
+     */
+    #decodeReturn(r: InterplayType | undefined) {
+        // Correctly decode thhe optional return of the wasm function
+        const wasmReturn = r ? this.#decodeInterplayType(r).value : undefined;
+
+        // Free the interplay type of the return if present and after decoding. NOTE: Falsy values like empty strings
+        // or `null` as JSON may still be allocated.
+        if(r) {
+            this.#freeEncodedInterplayType(r);
+        }
+
+        // Errors returned by Zig are thrown, just like the JS function would do
+        if(wasmReturn instanceof InterplayError) {
+            throw wasmReturn;
+        }
+
+        // There is no need for the wasm function to return something. So we only decode interplay types if we received
+        // an actual value as a return.
+        return wasmReturn;
+    }
+
+    /**
+     * Each InterplayType in Zig is a packed struct of size u128 of which the first 4bit are its type notation. The
+     * reamaining bits can be used as desired for each type, requireing to parse different sections of different use
+     * and size. The value is copied to the scratch area, so each section can be read as number without any BigInt
+     * arithmetic. Sections wider than 53bit lose precision, see #decodeInteger for the 124bit integers.
+     * 
+     * @param value the interplay type from where the section values will be extracted
+     * @param sections the sections after the type in which exact order their values of X bits will be extracted
+     * @returns an object with the type and the section names as key and extracted bits as value
+     */
+    #extractBitSections(value: InterplayType, sections: Array<[string, number]>)  {
+        this.#scratch.setBigUint64(0, value[0], true);
+        this.#scratch.setBigUint64(8, value[1], true);
+
+        const r: {[key: string]: number} = { type: this.#readBits(0, 4) };
+
+        let offset = 4;
+        for(const section of sections) {
+            r[section[0]] = this.#readBits(offset, section[1]);
+            offset += section[1];
+        }
+
+        return r;
+    }
+
+    /**
+     * The counterpart of #extractBitSections, which packs the given sections in their exact order into an interplay
+     * type. The first section is expected to be the type. Only BigInt values are packed with BigInt arithmetic.
+     *
+     * @param sections the sections with their name, number of bits and value
+     * @returns the packed interplay type
+     */
+    #packBitSections(sections: Array<[string, number, number|bigint]>): InterplayType {
+        this.#scratch.setBigUint64(0, 0n);
+        this.#scratch.setBigUint64(8, 0n);
+
+        let offset = 0;
+        for(const section of sections) {
+            this.#writeBits(offset, section[1], section[2]);
+            offset += section[1];
+        }
+
+        return [this.#scratch.getBigUint64(0, true), this.#scratch.getBigUint64(8, true)];
+    }
+
+    /**
+     * Read up to 53 bits at the given bit offset of the scratch area.
+     *
+     * @param offset offset in bits
+     * @param bits number of bits to read
+     * @returns the read bits as number
+     */
+    #readBits(offset: number, bits: number): number {
+        if(bits > 32) {
+            return this.#readBits(offset, 32) + (this.#readBits(offset + 32, bits - 32) * 2 ** 32);
+        }
+
+        const index = (offset >>> 5) << 2;
+        const shift = offset & 31;
+
+        let v = this.#scratch.getUint32(index, true) >>> shift;
+        // The section may continue in the next word
+        if(shift + bits > 32) {
+            v |= this.#scratch.getUint32(index + 4, true) << (32 - shift);
+        }
+
+        return (bits == 32) ? (v >>> 0) : (v & ((2 ** bits) - 1)) >>> 0;
+    }
+
+    /**
+     * Write the value to the given bit offset of the zeroed scratch area. Numbers are expected to be non-negative
+     * integers, anything else is passed as BigInt.
+     *
+     * @param offset offset in bits
+     * @param bits number of bits to write
+     * @param value the value to write
+     */
+    #writeBits(offset: number, bits: number, value: number|bigint) {
+        let v = (typeof value === 'bigint') ? BigInt.asUintN(bits, value) : value;
+
+        // Write the value in chunks of 32bit, each of which may be spread over two words
+        for(; bits > 0; bits -= 32, offset += 32) {
+            const chunkBits = Math.min(bits, 32);
+            let chunk: number;
+            if(typeof v === 'bigint') {
+                chunk = Number(v & 0xffffffffn);
+                v >>= 32n;
+            } else {
+                chunk = v >>> 0;
+                v = Math.floor(v / 2 ** 32);
+            }
+            if(chunkBits < 32) chunk = (chunk & ((2 ** chunkBits) - 1)) >>> 0;
+
+            const index = (offset >>> 5) << 2;
+            const shift = offset & 31;
+
+            this.#scratch.setUint32(index, (this.#scratch.getUint32(index, true) | (chunk << shift)) >>> 0, true);
+            if(shift + chunkBits > 32) {
+                this.#scratch.setUint32(index + 4, (this.#scratch.getUint32(index + 4, true) | (chunk >>> (32 - shift))) >>> 0, true);
+            }
+        }
+    }
+
+    /**
+     * Read the 124bit integer of an int or uint interplay type. This is the only place where BigInt arithmetic is
+     * required for decoding. The integer is returned as number instead, if the `decodeIntegersAs` option says so.
+     *
+     * @param value the interplay type to read
+     * @param signed whether the integer is signed
+     * @returns the integer
+     */
+    #decodeInteger(value: InterplayType, signed: boolean): bigint | number {
+        const details = (BigInt.asUintN(64, value[0]) >> 4n) | (BigInt.asUintN(64, value[1]) << 60n);
+        const integer = signed ? BigInt.asIntN(124, details) : BigInt.asUintN(124, details);
+
+        switch(this.#options.decodeIntegersAs) {
+            case 'number':
+                return Number(integer);
+            case 'auto':
+                return (integer >= BigInt(Number.MIN_SAFE_INTEGER) && integer <= BigInt(Number.MAX_SAFE_INTEGER)) ? Number(integer) : integer;
+            default:
+                return integer;
+        }
+    }
+
+    /**
+     * Detect the correct InterplayTypeId for any JS value. If the type is not supported, we throw an error.
+     * 
+     * @param value the value of which the InterplayTypeId should be detected from
+     * @returns the detected InterplayTypeId
+     */
+    #mapValueToInterplayTypeId(value: any): InterplayTypeId {
+        switch (typeof value) {
+            case 'string':
+                return InterplayTypeId.string;
+            case 'number':
+                return ((value % 1) === 0) ? (value < 0) ? InterplayTypeId.int : InterplayTypeId.uint : InterplayTypeId.float;
+            case 'bigint':
+                return (value < 0n) ? InterplayTypeId.int : InterplayTypeId.uint;
+            case 'boolean':
+                return InterplayTypeId.bool;
+            case 'symbol':
+                throw new Error(`type '${typeof value}' (value '${String(value)}') not implemented`)
+            case 'undefined':
+                return InterplayTypeId.void;
+            case 'object': {
+                // Null is a void with its null flag set, see Optional in interplay.zig
+                if (value === null) {
+                    return InterplayTypeId.void;
+                }
+                if (value instanceof InterplayValue) {
+                    return value.type;
+                }
+                if (typeof value.then === 'function') {
+                    return InterplayTypeId.promise;
+                }
+                if (value instanceof Error) {
+                    return InterplayTypeId.error;
+                }
+                if (value instanceof Map) {
+                    return InterplayTypeId.struct;
+                }
+                if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+                    return InterplayTypeId.bytes;
+                }
+                if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+                    return InterplayTypeId.typedarray;
+                }
+                if(Array.isArray(value)) {
+                    return InterplayTypeId.array;
+                }
+                // Iterables are passed as iterators, which are functions returning the next value on each call
+                if(isIterableSource(value)) {
+                    return InterplayTypeId.function;
+                }
+                // Objects like a Date pick their own JSON representation, which they had before handles existed
+                if(typeof value.toJSON === 'function') {
+                    return InterplayTypeId.json;
+                }
+                // Only plain objects can be represented as JSON, anything else is kept alive on our side
+                if(!isPlainObject(value)) {
+                    return InterplayTypeId.handle;
+                }
+                // Structs decoded by us stay structs, just like objects with fields that JSON can't represent
+                return (decodedStructs.has(value) || !fitsJson(value)) ? InterplayTypeId.struct : InterplayTypeId.json;
+            }
+            case 'function':
+                return InterplayTypeId.function;
+            default:
+                // NOTE: This is just in case, this should be unreachable
+                throw new Error(`type '${typeof value}' not implemented`)
+        }
+    }
+
+    /**
+     * Decode a given Interplay Type to its JavaScript value. Any allocations done to the interplay type can be freed
+     * after this call, as the return value does not depend on the origin value.
+     * 
+     * @param value interplay type to decode
+     * @returns decoded interplay type as javascript value
+     */
+    #decodeInterplayType(value: InterplayType): any {
+        const { type } = this.#extractBitSections(value, []);
+
+        switch (type) {
+            case InterplayTypeId.void:
+                return { type, value: (this.#extractBitSections(value, [['null', 1]]).null === 1) ? null : undefined };
+            case InterplayTypeId.bool:
+                return { type, value: this.#extractBitSections(value, [['value', 1]]).value === 1 };
+            case InterplayTypeId.int:
+                return { type, value: this.#decodeInteger(value, true) };
+            case InterplayTypeId.uint:
+                return { type, value: this.#decodeInteger(value, false) };
+            case InterplayTypeId.float: {
+                // We only care about the first 64bit for the float
+                const { low, high } = this.#extractBitSections(value, [
+                    ['low', 32],
+                    ['high', 32],
+                ]);
+
+                // Move the value into a correct representation behind the interplay type within the scratch area
+                this.#scratch.setUint32(16, low, true);
+                this.#scratch.setUint32(20, high, true);
+
+                // Return correct float value
+                return { type, value: this.#scratch.getFloat64(16, true) };
+            }
+            case InterplayTypeId.bytes: {
+                const buf = this.#decodeBytesLikeType(value);
+
+                // NOTE: It is important to slice as the buf is only pointing to the raw WASM memory section
+                return { type, value: buf.slice() };
+            }
+            case InterplayTypeId.string: {
+                const str = this.#decodeText(this.#decodeBytesLikeType(value));
+
+                return { type, value: str };
+            }
+            case InterplayTypeId.typedarray: {
+                const { ptr, len, kind, borrowed } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#typedArrayLengthBits],
+                    ['kind', 4],
+                    ['borrowed', 1],
+                ]);
+                const view = new typedArrayKinds[kind](this.#memory.buffer, ptr, len);
+
+                // NOTE: Borrowed arrays are a view of the raw WASM memory, which is invalidated as soon as the memory grows
+                return { type, value: (borrowed === 1) ? view : view.slice() };
+            }
+            case InterplayTypeId.json: {
+                const str = this.#decodeText(this.#decodeBytesLikeType(value));
+                const json = JSON.parse(str)
+
+                return { type, value: json };
+            }
+            case InterplayTypeId.cbor:
+                return { type, value: decodeCbor(this.#decodeBytesLikeType(value)) };
+            case InterplayTypeId.function: {
+                // Create a function that behaves just like a JavaScript function
+                const f = function (...args) {
+                    // If the function is of JavaScript origin, we can just call it straight from the function table
+                    if(this.prototype.origin == 1) {
+                        const entry = this.prototype.inst.#functionTable[this.prototype.ptr];
+
+                        if(!entry) {
+                            throw new Error(`Function ${this.prototype.ptr} has already been released.`);
+                        }
+
+                        return entry.value(args)
+                    } else {
+                        // Else we do a wrapped call to the referenced zig function
+                        // NOTE: The exports are gone once the instance has been disposed, which the wrapped call reports
+                        return this.prototype.inst.#wrappedCall('call', this.prototype.inst.#wasm?.call, this, args);
+                    }
+                }
+                // Extract pointer, origin and kind of the function
+                const { ptr, origin, kind } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['origin', 1],
+                    ['kind', 1],
+                ])
+
+                // Store function attributes in prototype so we can recoginize it again
+                f.prototype.ptr = ptr;
+                f.prototype.origin = origin;
+                f.prototype.kind = kind;
+                f.prototype.inst = this;
+
+                // Bind it to itself so we can reference this within the function
+                const boundF = f.bind(f);
+                // Copy over the prototype to the bound function
+                Object.setPrototypeOf(boundF, f.prototype);
+
+                // References to JS functions are only valid during the call that passed them, unless retained. Zig
+                // functions are always valid, so there is nothing to track.
+                const refs = { count: 0 };
+                boundF.retain = () => {
+                    if(origin !== 1) return boundF;
+                    this.#retainFunction(Number(ptr));
+                    // Only the first retain needs to be tracked, as the registry releases all of them
+                    if(refs.count++ == 0) this.#functionRegistry.register(boundF, { id: Number(ptr), refs }, refs);
+                    return boundF;
+                };
+                boundF.release = () => {
+                    if(origin !== 1 || refs.count == 0) return;
+                    this.#releaseFunction(Number(ptr));
+                    if(--refs.count == 0) this.#functionRegistry.unregister(refs);
+                };
+
+                if(kind === 1) this.#makeIterable(boundF);
+
+                return { type, value: boundF };
+            }
+            case InterplayTypeId.array: {
+                // Extract pointer and number of items of the array
+                const { ptr, len } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#lengthBits],
+                ])
+
+                const decodedArray = this.#readInterplayTypeList(ptr, len).map(v => this.#decodeInterplayType(v).value);
+
+                return { type, value: decodedArray };
+            }
+            case InterplayTypeId.struct: {
+                // Extract pointer and number of fields of the struct
+                const { ptr, len } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#lengthBits],
+                ])
+
+                // Each field is stored as two items, the key and the value
+                const items = this.#readInterplayTypeList(ptr, len * 2).map(v => this.#decodeInterplayType(v).value);
+
+                const entries = [];
+                for(let i = 0; i < items.length; i += 2) {
+                    entries.push([items[i], items[i + 1]]);
+                }
+
+                const decoded = Object.fromEntries(entries);
+                decodedStructs.add(decoded);
+
+                return { type, value: decoded };
+            }
+            case InterplayTypeId.error: {
+                // The details are a pointer to two values, the Zig error name and the message
+                const [zigError, message] = this.#decodeErrorDetails(value).map(d => this.#decodeInterplayType(d).value);
+
+                return { type, value: createInterplayError(zigError, message, false) };
+            }
+            case InterplayTypeId.handle: {
+                const { id } = this.#extractBitSections(value, [
+                    ['id', 32],
+                ]);
+                const entry = this.#handleTable[Number(id)];
+
+                if(!entry) {
+                    throw new Error(`Handle ${id} has already been released.`);
+                }
+
+                return { type, value: entry.value };
+            }
+            case InterplayTypeId.promise: {
+                const { id } = this.#extractBitSections(value, [
+                    ['id', 32],
+                ]);
+                const entry = this.#promiseTable[Number(id)];
+
+                if(!entry) {
+                    throw new Error(`Promise ${id} is unknown or has already been released.`);
+                }
+
+                return { type, value: entry.value };
+            }
+            default:
+                throw new Error(`Interplay type ${type} is not supported for decoding.`)
+        }
+    }
+
+    /**
+     * Encode a JavaScript value to the corresponding interplay type. This may require allocation in memory in order to
+     * transfer the full value to the WASM environment. There is no automatic free and this needs to be done manually
+     * after the interplay type has been used.
+     * 
+     * @param value javascript value to encode
+     * @returns encoded javascript value as interplay type
+     */
+    #encodeInterplayType(value: any): InterplayType {
+        // Detect interplay type for the value so we can continue to encode it
+        const iplType = this.#mapValueToInterplayTypeId(value);
+        // Values with an explicit interplay type are encoded by their wrapped value
+        if(value instanceof InterplayValue) value = value.value;
+        // Temporary placeholder for the sections after the type within the interplay type
+        let details: Array<[string, number, number|bigint]> = [];
+
+        switch (iplType) {
+            case InterplayTypeId.void:
+                details = [['null', 1, (value === null) ? 1 : 0]];
+                break;
+            case InterplayTypeId.bool:
+                details = [['value', 1, value ? 1 : 0]];
+                break;
+            case InterplayTypeId.int:
+            case InterplayTypeId.uint:
+                // No special encoding required here, but cutting it down to 124bit. Only negative or huge integers
+                // need BigInt arithmetic for that.
+                details = [['value', 124, (Number.isSafeInteger(value) && value >= 0) ? value : BigInt(value)]];
+                break;
+            case InterplayTypeId.float: {
+                // Cut down the float to 64bit to match zig side, behind the interplay type within the scratch area
+                this.#scratch.setFloat64(16, value, true);
+                details = [
+                    ['low', 32, this.#scratch.getUint32(16, true)],
+                    ['high', 32, this.#scratch.getUint32(20, true)],
+                ];
+                break;
+            }
+            case InterplayTypeId.bytes: {
+                // We accept Uint8array and ArrayBuffer, so we need to find a common here
+                const buf = (value instanceof Uint8Array) ? value : new Uint8Array(value);
+                details = this.#encodeBytesLikeType(buf);
+                break;
+            }
+            case InterplayTypeId.typedarray: {
+                const kind = typedArrayKinds.findIndex(t => value instanceof t);
+                const memory = this.#memory.buffer;
+                let ptr = 0;
+                let borrowed = 0;
+
+                if(value.buffer === memory) {
+                    // The array already lives in the WASM memory, e.g. a borrowed array returned by Zig. So there is
+                    // no need to copy it and Zig can work on it directly.
+                    ptr = value.byteOffset;
+                    borrowed = 1;
+                } else if(value.length > 0) {
+                    ptr = this.#wasmAlloc(value.byteLength, value.BYTES_PER_ELEMENT);
+                    // NOTE: The allocation may have grown the memory, which detaches the previous buffer
+                    new Uint8Array(this.#memory.buffer, ptr, value.byteLength).set(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+                }
+
+                // Encode the pointer, number of elements, element kind and whether it is borrowed
+                details = [
+                    ['ptr', this.#pointerBits, ptr],
+                    ['len', this.#typedArrayLengthBits, value.length],
+                    ['kind', 4, kind],
+                    ['borrowed', 1, borrowed],
+                ];
+                break;
+            }
+            case InterplayTypeId.string: {
+                // Encode the string to raw bytes that we can actually allocate and copy
+                const buf = this.#textEncoder.encode(value);
+                details = this.#encodeBytesLikeType(buf);
+                break;
+            }
+            case InterplayTypeId.json: {
+                // Encode the string to raw bytes that we can actually allocate and copy
+                const buf = this.#textEncoder.encode(JSON.stringify(value));
+                details = this.#encodeBytesLikeType(buf);
+                break;
+            }
+            case InterplayTypeId.cbor:
+                details = this.#encodeBytesLikeType(encodeCbor(value));
+                break;
+            case InterplayTypeId.function: {
+                // Check if we have a Zig function of this instance given to us. If so, we can just directly encode its
+                // details. Functions of other instances are passed as JS functions calling into their instance.
+                if(value.prototype && value.prototype.inst === this && value.prototype.origin == 0) {
+                    // Encode the pointer, origin and kind of the zig function
+                    details = [['ptr', this.#pointerBits, value.prototype.ptr], ['origin', 1, 0], ['kind', 1, value.prototype.kind ?? 0]];
+                } else if(value.prototype && value.prototype.inst === this && value.prototype.origin == 1 && this.#functionTable[value.prototype.ptr]) {
+                    // This is a reference to a JS function we already know, so we reuse it and count the reference
+                    this.#retainFunction(value.prototype.ptr);
+                    details = [['ptr', this.#pointerBits, value.prototype.ptr], ['origin', 1, 1], ['kind', 1, value.prototype.kind ?? 0]];
+                } else {
+                    // Get the next key for the new JS function
+                    const key = this.#nextFunctionId++;
+                    const isIterator = typeof value !== 'function';
+                    // Store the js function in our internal function table, referenced once by this encoded value.
+                    // Iterables are stored as the function stepping through them.
+                    this.#functionTable[key] = { value: isIterator ? this.#iteratorStep(value) : (args) => {
+                        return value(...args)
+                    }, refs: 1, name: isIterator ? 'iterator' : (value.name || 'anonymous') };
+                    // Encode the key as the pointer and set JS as the function origin. Iterators of other instances
+                    // keep their kind, as they are called the same way.
+                    const kind = (isIterator || value.prototype?.kind === 1) ? 1 : 0;
+                    details = [['ptr', this.#pointerBits, key], ['origin', 1, 1], ['kind', 1, kind]];
+                }
+                break;
+            }
+            case InterplayTypeId.array: {
+                // Check if an empty array is given to us. If so, we can just leave all bits at zero.
+                if(value.length == 0) break;
+                // Encode each value of the given array and store its InterplayType in the allocated buffer
+                const ptr = this.#writeInterplayTypeList(value.map(v => this.#encodeInterplayType(v)));
+                // Encode the pointer and number of items. Marking the array as ours keeps js.call from freeing it, in
+                // case Zig passes it back to us.
+                details = [...this.#encodePointerAndLength(ptr, value.length), ['origin', 1, 1]];
+                break;
+            }
+            case InterplayTypeId.error: {
+                // Zig expects two values behind the pointer, the error name and the message
+                const zigError = (value instanceof InterplayError && value.zigError) ? value.zigError : value.name;
+                const ptr = this.#writeInterplayTypeList([this.#encodeInterplayType(zigError), this.#encodeInterplayType(value.message)]);
+                // Encode the pointer to the details
+                details = this.#encodePointerAndLength(ptr);
+                break;
+            }
+            case InterplayTypeId.struct: {
+                // Either a map or a plain object
+                const fields: Array<[any, any]> = (value instanceof Map) ? [...value] : Object.entries(value);
+                // Check if an empty struct is given to us. If so, we can just leave all bits at zero.
+                if(fields.length == 0) break;
+                // Each field is stored as two items, the key and the value
+                const items: InterplayType[] = [];
+                for(const [k, v] of fields) {
+                    if(typeof k !== 'string') {
+                        throw new Error(`Struct keys are expected to be strings, got '${typeof k}'.`);
+                    }
+                    items.push(this.#encodeInterplayType(k), this.#encodeInterplayType(v));
+                }
+                const ptr = this.#writeInterplayTypeList(items);
+                // Encode the pointer and number of fields
+                details = this.#encodePointerAndLength(ptr, fields.length);
+                break;
+            }
+            case InterplayTypeId.handle: {
+                // Store the object in our internal handle table, referenced once by this encoded value
+                const id = this.#nextHandleId++;
+                this.#handleTable[id] = { value, refs: 1 };
+                details = [['id', 32, id]];
+                break;
+            }
+            case InterplayTypeId.promise: {
+                // Any thenable is accepted, but we only keep track of real promises
+                const id = this.#registerPromise(Promise.resolve(value));
+                details = [['id', 32, id]];
+                break;
+            }
+            default:
+                throw new Error(`Interplay type ${iplType} is not supported for encoding.`)
+        }
+
+        // Merge type and details to the two 64bit halfs
+        return this.#packBitSections([['type', 4, iplType], ...details]);
+    }
+
+    /**
+     * This is a shortcut to easily read bytes like interplay types from memory. It is important to note, that this function
+     * does no return a copy of the memory section, but rather points at it. If you return this and modify it without the purpose
+     * of modifying it in the actual memory, please create a copy of this buffer.
+     * 
+     * @param value interplay type that implements the bytes like interface
+     * @returns the buffer pointing to the memory section
+     */
+    #decodeBytesLikeType(value: InterplayType) {
+        // Extract pointer and length from the details
+        const { ptr, len } = this.#extractBitSections(value, [
+            ['ptr', this.#pointerBits],
+            ['len', this.#lengthBits],
+        ]);
+        // Return a specific uint8array for that memory region
+        return new Uint8Array(this.#memory.buffer, ptr, len);
+    }
+
+    /**
+     * Decode UTF-8 text within the WASM memory. The TextDecoder of browsers rejects views of a SharedArrayBuffer, so
+     * text within a shared memory is copied first.
+     *
+     * @param buf the bytes of the text
+     * @returns the decoded text
+     */
+    #decodeText(buf: Uint8Array): string {
+        return this.#textDecoder.decode((buf.buffer instanceof ArrayBuffer) ? buf : buf.slice());
+    }
+
+    /**
+     * Read a list of interplay types from memory, as used by arrays and structs. Each item is 128bit, so two halfs.
+     *
+     * @param ptr pointer to the first item
+     * @param count number of items to read
+     * @returns copies of the interplay types in the list
+     */
+    #readInterplayTypeList(ptr: number|bigint, count: number|bigint): InterplayType[] {
+        // View as array of u64, the length is twice as long as the number of items because len * 128bit = len * 2 * 64bit
+        const tempBuf = new BigUint64Array(this.#memory.buffer, Number(ptr), Number(count) * 2);
+
+        const items: InterplayType[] = [];
+        for(let i = 0; i < Number(count); i++) {
+            items.push([tempBuf[i * 2], tempBuf[(i * 2) + 1]]);
+        }
+
+        return items;
+    }
+
+    /**
+     * Copy a list of already encoded interplay types to newly allocated memory, as used by arrays and structs.
+     *
+     * @param items encoded interplay types to copy
+     * @returns pointer to the allocated list of (number of items * 16bytes)
+     */
+    #writeInterplayTypeList(items: InterplayType[]): number {
+        const ptr = this.#wasmAlloc(items.length * 16);
+        // NOTE: The view is created after the items have been encoded, as their allocations may grow the memory
+        new BigUint64Array(this.#memory.buffer, ptr, items.length * 2).set(items.flat());
+
+        return ptr;
+    }
+
+    /**
+     * Read the two interplay types the details of an error type are pointing to. These are the Zig error name and the
+     * message, both as strings.
+     *
+     * @param value the error interplay type
+     * @returns the interplay types of the error name and message
+     */
+    #decodeErrorDetails(value: InterplayType): [InterplayType, InterplayType] {
+        const { ptr } = this.#extractBitSections(value, [
+            ['ptr', this.#pointerBits],
+        ]);
+        // View as array of u64, two items with each being 128bit = 4 * 64bit
+        const tempBuf = new BigUint64Array(this.#memory.buffer, ptr, 4);
+
+        return [[tempBuf[0], tempBuf[1]], [tempBuf[2], tempBuf[3]]];
+    }
+
+    /**
+     * This is a shortcut to easily copy bytes like interplay types to memory. This copies the given buffer and the given buffer
+     * is free to be cleared/freed or used otherwise after this call.
+     * 
+     * @param buf to copy as bytes like interplay type to wasm memory
+     * @returns sections of the encoded interplay type for this buffer
+     */
+    #encodeBytesLikeType(buf: Uint8Array): Array<[string, number, number]> {
+        const len = buf.byteLength;
+        // NOTE: Zig does not hand out a real pointer for empty allocations, so we leave all bits at zero
+        if(len == 0) return [];
+        // Allocate space in the wasm memory where we can copy these bytes
+        const ptr = this.#wasmAlloc(len);
+        // Copy the buffer data over to the wasm memory
+        new Uint8Array(this.#memory.buffer, ptr, len).set(buf);
+        // Encode the pointer and length
+        return this.#encodePointerAndLength(ptr, len);
+    }
+
+    /**
+     * Encode a pointer and an optional length, which is the common layout of the details of most interplay types. The
+     * size of both depends on the memory of the WASM module.
+     *
+     * @param ptr the pointer to encode
+     * @param len the length to encode
+     * @returns the sections of the encoded details
+     */
+    #encodePointerAndLength(ptr: number, len: number = 0): Array<[string, number, number]> {
+        return [['ptr', this.#pointerBits, ptr], ['len', this.#lengthBits, len]];
+    }
+
+    /**
+     * Memory allocation wrapper to simplfiy typing around it. See Zig wasm_allocator for details.
+     * 
+     * @param len the number of bytes to allocate
+     * @param alignment alignment of the allocated space in bytes, a power of two
+     * @returns a ptr to the allocated space or -1 as an error
+     */
+    #wasmAlloc(len: number|bigint, alignment: number = 1) {
+        if(Number(len) < 0) return -1;
+
+        // NOTE: With memory64 pointers and lengths are passed as 64bit integers
+        let ptr: number;
+        this.#allocating = true;
+        try {
+            // Older modules only allocate bytes, which the wasm_allocator aligns to their size class anyway
+            if(alignment > 1 && typeof this.#wasm.ipl_alloc_aligned === 'function') {
+                const allocAligned = this.#wasm.ipl_alloc_aligned as (len: number|bigint, log2Align: number) => number|bigint;
+
+                ptr = Number(allocAligned((this.#pointerBits == 64) ? BigInt(len) : Number(len) >>> 0, Math.log2(alignment)));
+            } else if(this.#pointerBits == 64) {
+                const alloc = this.#wasm.alloc as (len: bigint) => bigint;
+
+                ptr = Number(alloc(BigInt(len)));
+            } else {
+                const alloc = this.#wasm.alloc as (len: number) => number;
+
+                ptr = alloc(Number(len) >>> 32);
+            }
+        } finally {
+            this.#allocating = false;
+        }
+
+        this.#tracker?.allocated(ptr, Number(len), 'js', alignment);
+        this.#allocatedBytes += Number(len);
+
+        return ptr;
+    }
+
+    /**
+     * Memory free wrapper to simplify typing around it. See Zig wasm_allocator for details.
+     * 
+     * @param ptr pointer of the memory space to free
+     * @param len length of the region to free
+     * @param alignment alignment the memory space has been allocated with, see #wasmAlloc
+     */
+    #wasmFree(ptr: number|bigint, len: number|bigint, alignment: number = 1) {
+        // NOTE: Empty values are never allocated, see #encodeBytesLikeType
+        if(Number(len) <= 0) return;
+
+        this.#tracker?.freed(Number(ptr));
+
+        if(alignment > 1 && typeof this.#wasm.ipl_free_aligned === 'function') {
+            const freeAligned = this.#wasm.ipl_free_aligned as (ptr: number|bigint, len: number|bigint, log2Align: number) => void;
+
+            if(this.#pointerBits == 64) {
+                freeAligned(BigInt(ptr), BigInt(len), Math.log2(alignment));
+            } else {
+                freeAligned(Number(ptr) >>> 0, Number(len) >>> 0, Math.log2(alignment));
+            }
+            return;
+        }
+
+        if(this.#pointerBits == 64) {
+            const free = this.#wasm.free as (ptr: bigint, len: bigint) => void;
+
+            free(BigInt(ptr), BigInt(len));
+            return;
+        }
+
+        const free = this.#wasm.free as (ptr: number, len: number) => void;
+
+        free(Number(ptr) >>> 32, Number(len) >>> 32)
+    }
+
+    /**
+     * As soon as a call to the WASM function os over or the return has been decoded into a JavaScript value, any allocations
+     * done for those types, on both Zig and JS side, will be freed with this function.
+     * 
+     * @param value the interplay type to free the allocated resources for
+     */
+    #freeEncodedInterplayType(value: InterplayType) {
+        // TODO: Currently the base of this function is repeating code of the #decodeInterplayType function and should be reworked.
+
+        const { type } = this.#extractBitSections(value, []);
+
+        // Handle all the different types
+        switch (type) {
+            case InterplayTypeId.void:
+            case InterplayTypeId.bool:
+            case InterplayTypeId.int:
+            case InterplayTypeId.uint:
+            case InterplayTypeId.float:
+                // These types don't allocate any space and are only stored in the interplay type itself.
+                break;
+            case InterplayTypeId.bytes:
+            case InterplayTypeId.string:
+            case InterplayTypeId.json:
+            case InterplayTypeId.cbor: {
+                // Extract pointer and length from the details
+                const { ptr, len } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#lengthBits],
+                ]);
+
+                this.#wasmFree(ptr, len);
+                break;
+            }
+            case InterplayTypeId.typedarray: {
+                const { ptr, len, kind, borrowed } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#typedArrayLengthBits],
+                    ['kind', 4],
+                    ['borrowed', 1],
+                ]);
+
+                // Borrowed arrays are owned by someone else
+                if(borrowed === 0) {
+                    const size = typedArrayKinds[kind].BYTES_PER_ELEMENT;
+                    this.#wasmFree(ptr, len * size, size);
+                }
+                break;
+            }
+            case InterplayTypeId.function: {
+                // Extract pointer and origin of the function
+                const { ptr, origin } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['origin', 1],
+                ])
+
+                // We only have to do a cleanup on a JavaScript function
+                if(origin === 1) {
+                    this.#releaseFunction(Number(ptr));
+                }
+                break;
+            }
+            case InterplayTypeId.handle: {
+                const { id } = this.#extractBitSections(value, [
+                    ['id', 32],
+                ]);
+
+                this.#releaseTableEntry(this.#handleTable, Number(id));
+                break;
+            }
+            case InterplayTypeId.promise: {
+                const { id } = this.#extractBitSections(value, [
+                    ['id', 32],
+                ]);
+
+                this.#releaseTableEntry(this.#promiseTable, Number(id));
+                break;
+            }
+            case InterplayTypeId.array: {
+                // Extract pointer and number of items of the array
+                const { ptr, len } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#lengthBits],
+                ])
+
+                for(const item of this.#readInterplayTypeList(ptr, len)) {
+                    this.#freeEncodedInterplayType(item);
+                }
+
+                // Free the array itself (1item = 128 bit = 16 bytes)
+                this.#wasmFree(ptr, len * 16);
+                break;
+            }
+            case InterplayTypeId.struct: {
+                // Extract pointer and number of fields of the struct
+                const { ptr, len } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                    ['len', this.#lengthBits],
+                ])
+
+                for(const item of this.#readInterplayTypeList(ptr, len * 2)) {
+                    this.#freeEncodedInterplayType(item);
+                }
+
+                // Free the fields itself (1field = 2items = 256 bit = 32 bytes)
+                this.#wasmFree(ptr, len * 32);
+                break;
+            }
+            case InterplayTypeId.error: {
+                for(const detail of this.#decodeErrorDetails(value)) {
+                    this.#freeEncodedInterplayType(detail);
+                }
+
+                // Free the details itself (2items = 256 bit = 32 bytes)
+                const { ptr } = this.#extractBitSections(value, [
+                    ['ptr', this.#pointerBits],
+                ]);
+                this.#wasmFree(ptr, 32);
+                break;
+            }
+            default:
+                throw new Error(`Interplay type ${type} is not supported for decoding.`)
+        }
+    }
+}
+
+/**
+ * A call to an export that is tracked in debug mode.
+ */
+interface TrackedCall {
+    exportName: string;
+}
+
+/**
+ * An allocation tracked in debug mode with the call that caused it.
+ */
+type TrackedAllocation = InterplayAllocation & { call?: TrackedCall, alignment?: number };
+
+/**
+ * Records the live allocations within the WASM memory and reports the ones a call left behind.
+ */
+class AllocationTracker {
+    /**
+     * The live allocations by their pointer.
+     */
+    #allocations = new Map<number, TrackedAllocation>();
+
+    /**
+     * The outermost call that is currently running. Allocations of nested calls, e.g. by callbacks, are accounted to
+     * this call.
+     */
+    #current: TrackedCall = undefined;
+
+    #onLeak: (exportName: string, allocations: InterplayAllocation[]) => void;
+
+    constructor(onLeak: (exportName: string, allocations: InterplayAllocation[]) => void) {
+        this.#onLeak = onLeak;
+    }
+
+    /**
+     * Start tracking a call to an export.
+     *
+     * @param exportName name of the called export
+     * @returns the tracked call or undefined for nested calls
+     */
+    enter(exportName: string): TrackedCall | undefined {
+        if(this.#current) return undefined;
+
+        return this.#current = { exportName };
+    }
+
+    /**
+     * Stop accounting new allocations to the given call, e.g. while waiting for a promise.
+     *
+     * @param call the tracked call
+     */
+    leave(call: TrackedCall | undefined) {
+        if(call && this.#current === call) this.#current = undefined;
+    }
+
+    /**
+     * Finish a tracked call and report the allocations it left behind.
+     *
+     * @param call the tracked call
+     */
+    finish(call: TrackedCall | undefined) {
+        if(!call) return;
+        this.leave(call);
+
+        const leaks = [...this.#allocations.values()].filter(a => a.call === call);
+        if(leaks.length > 0) {
+            this.#onLeak(call.exportName, leaks.map(({ call, alignment, ...allocation }) => allocation));
+        }
+    }
+
+    allocated(ptr: number, size: number, origin: 'js' | 'zig', alignment?: number) {
+        this.#allocations.set(ptr, { ptr, size, origin, exportName: this.#current?.exportName, call: this.#current, alignment });
+    }
+
+    freed(ptr: number) {
+        this.#allocations.delete(ptr);
+    }
+
+    /**
+     * Capture the live allocations, see `InterplayInstance.snapshot()`.
+     *
+     * @returns the captured allocations
+     */
+    snapshot(): Map<number, TrackedAllocation> {
+        return new Map(this.#allocations);
+    }
+
+    /**
+     * Reapply the live allocations captured by `snapshot()`.
+     *
+     * @param allocations the captured allocations
+     */
+    restore(allocations: Map<number, TrackedAllocation>) {
+        this.#allocations = new Map(allocations);
+    }
+
+    /**
+     * Get the live allocations of the JS side with the alignment they have been allocated with, see `dispose()`.
+     *
+     * @returns the allocations the JS side owns
+     */
+    owned(): Array<{ ptr: number, size: number, alignment: number }> {
+        return [...this.#allocations.values()].filter(a => a.origin === 'js').map(({ ptr, size, alignment }) => ({ ptr, size, alignment: alignment ?? 1 }));
+    }
+
+    stats(): InterplayMemoryStats {
+        const allocations = [...this.#allocations.values()].map(({ call, alignment, ...allocation }) => allocation);
+        const byExport: {[exportName: string]: { count: number, bytes: number }} = {};
+
+        for(const { size, exportName } of allocations) {
+            const entry = byExport[exportName ?? ''] ??= { count: 0, bytes: 0 };
+            entry.count++;
+            entry.bytes += size;
+        }
+
+        return {
+            count: allocations.length,
+            bytes: allocations.reduce((sum, a) => sum + a.size, 0),
+            allocations,
+            byExport,
+        };
+    }
+}
+
+/**
+ * Measures the phases of a call to an export for the hooks.
+ */
+class CallTrace {
+    #start = performance.now();
+    #encoded: number;
+    #called: number;
+    #decoded: number;
+    #bytesBefore: number;
+
+    constructor(
+        readonly exportName: string,
+        readonly args: any[],
+        readonly allocatedBytes: () => number,
+        readonly onReturn: (event: InterplayReturnEvent) => void,
+    ) {
+        this.#bytesBefore = allocatedBytes();
+    }
+
+    encoded() {
+        this.#encoded = performance.now();
+    }
+
+    called() {
+        this.#called = performance.now();
+    }
+
+    decoded() {
+        this.#decoded = performance.now();
+    }
+
+    /**
+     * Report the successful call.
+     *
+     * @param result the decoded return
+     * @returns the unchanged return
+     */
+    finish(result: any): any {
+        this.#decoded ??= performance.now();
+        this.onReturn(this.#event({ result }));
+
+        return result;
+    }
+
+    /**
+     * Report the failed call. Phases that have not been reached take no time.
+     *
+     * @param error the reason of the failure
+     */
+    fail(error: unknown) {
+        const now = performance.now();
+        this.#encoded ??= now;
+        this.#called ??= now;
+        this.#decoded ??= now;
+        this.onReturn(this.#event({ error }));
+    }
+
+    #event(outcome: { result?: any, error?: unknown }): InterplayReturnEvent {
+        return {
+            exportName: this.exportName,
+            args: this.args,
+            ...outcome,
+            start: this.#start,
+            encodeTime: this.#encoded - this.#start,
+            callTime: this.#called - this.#encoded,
+            decodeTime: this.#decoded - this.#called,
+            bytesAllocated: this.allocatedBytes() - this.#bytesBefore,
+        };
+    }
+}
+
+/**
+ * Records the calls crossing the boundary in the trace event format of Chrome, which can be loaded into the
+ * performance panel of the devtools or Perfetto. Add it to an instance with `addHooks`.
+ */
+export class InterplayTracer implements InterplayHooks {
+    #events: Array<{[key: string]: any}> = [];
+
+    onReturn(event: InterplayReturnEvent) {
+        this.#events.push({
+            name: event.exportName,
+            cat: 'export',
+            ph: 'X',
+            // Trace events are measured in microseconds
+            ts: event.start * 1000,
+            dur: (event.encodeTime + event.callTime + event.decodeTime) * 1000,
+            pid: 1,
+            tid: 1,
+            args: {
+                encodeTime: event.encodeTime,
+                callTime: event.callTime,
+                decodeTime: event.decodeTime,
+                bytesAllocated: event.bytesAllocated,
+                ...(('error' in event) ? { error: String(event.error) } : {}),
+            },
+        });
+    }
+
+    onCallback(event: InterplayCallbackEvent) {
+        this.#events.push({
+            name: event.name,
+            cat: 'callback',
+            ph: 'X',
+            ts: event.start * 1000,
+            dur: event.duration * 1000,
+            pid: 1,
+            tid: 1,
+            args: ('error' in event) ? { error: String(event.error) } : {},
+        });
+    }
+
+    /**
+     * Get the recorded trace, e.g. to save it with `JSON.stringify(tracer)`.
+     *
+     * @returns the trace in the trace event format
+     */
+    toJSON(): { traceEvents: Array<{[key: string]: any}>, displayTimeUnit: string } {
+        return { traceEvents: [...this.#events], displayTimeUnit: 'ms' };
+    }
+
+    /**
+     * Drop all recorded events.
+     */
+    clear() {
+        this.#events = [];
+    }
+}
+
+/**
+ * Links multiple modules by name, so they can call each other. A module imports the exports of a sibling with the
+ * sibling's name as import module, e.g. `ipl.importFunction("math", "add", ...)` in interplay.zig. Values crossing
+ * instances are copied into the memory of the receiving instance, functions are passed as references calling back into
+ * the instance they belong to.
+ */
+export class InterplayRegistry {
+    #instances = new Map<string, InterplayInstance>();
+
+    /**
+     * Instantiate a module and register it by the given name. The imports of siblings are resolved on each call, so the
+     * modules can be loaded in any order and may import each other.
+     *
+     * @param name name of the module, which siblings use as import module
+     * @param source raw bytes of the wasm module or the compiled module
+     * @param options options for the new instance
+     * @returns the new instance
+     */
+    async load<T = never>(name: string, source: BufferSource | WebAssembly.Module, options: InterplayOptions = {}): Promise<TypedInterplayInstance<T>> {
+        if(this.#instances.has(name)) {
+            throw new Error(`Module '${name}' has already been registered.`);
+        }
+
+        // NOTE: The module is compiled first, as we need to know its imports
+        const module = (source instanceof WebAssembly.Module) ? source : await WebAssembly.compile(source);
+
+        const modules: {[module: string]: {[name: string]: (...args: any[]) => any}} = {};
+        for(const imported of WebAssembly.Module.imports(module)) {
+            if(imported.kind !== 'function' || ['js', 'env'].includes(imported.module)) continue;
+
+            (modules[imported.module] ??= {})[imported.name] = (...args) => this.#export(imported.module, imported.name)(...args);
+        }
+
+        const inst = await InterplayInstance.initialize<T>(module, { ...options, modules: { ...modules, ...options.modules } });
+        this.add(name, inst as InterplayInstance);
+
+        return inst;
+    }
+
+    /**
+     * Register an already initialized instance, so other modules can import its exports. Its own imports of siblings
+     * are not linked, see `load`.
+     *
+     * @param name name of the module, which siblings use as import module
+     * @param inst the instance to register
+     */
+    add(name: string, inst: InterplayInstance) {
+        if(this.#instances.has(name)) {
+            throw new Error(`Module '${name}' has already been registered.`);
+        }
+
+        this.#instances.set(name, inst);
+    }
+
+    /**
+     * Get a registered instance by its name.
+     *
+     * @param name name of the module
+     * @returns the instance
+     */
+    get(name: string): InterplayInstance {
+        const inst = this.#instances.get(name);
+        if(!inst) {
+            throw new Error(`Module '${name}' has not been registered.`);
+        }
+
+        return inst;
+    }
+
+    /**
+     * Dispose all registered instances and remove them from the registry.
+     */
+    dispose() {
+        for(const inst of this.#instances.values()) {
+            inst.dispose();
+        }
+        this.#instances.clear();
+    }
+
+    /**
+     * Find the export of a registered instance.
+     *
+     * @param module name of the module
+     * @param name name of the export
+     * @returns the wrapped export
+     */
+    #export(module: string, name: string): (...args: any[]) => any {
+        const exported = this.get(module)[name];
+        if(typeof exported !== 'function') {
+            throw new Error(`Module '${module}' has no export '${name}'.`);
+        }
+
+        return exported;
+    }
+}
+
+/**
+ * Base class of any error that originates from the Zig side. The Zig error name is kept separately from the message,
+ * so callers can react on specific errors.
+ */
+export class InterplayError extends Error {
+    /**
+     * Name of the Zig error, e.g. `OutOfMemory`. This is missing if the WASM module trapped without telling us why.
+     */
+    readonly zigError?: string;
+
+    constructor(message: string, zigError?: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+        this.zigError = zigError;
+    }
+}
+
+/**
+ * The Zig code panicked or trapped during a call. This usually indicates a bug on the Zig side. The call is aborted
+ * without running the `defer`s of Zig, so any state it left behind stays as it is.
+ */
+export class InterplayPanicError extends InterplayError {}
+
+/**
+ * A value passed to Zig did not match the expected Interplay Type. This usually indicates a bad argument on the
+ * JavaScript side.
+ */
+export class InterplayTypeError extends InterplayError {}
+
+/**
+ * Map a Zig error to the matching error class.
+ *
+ * @param zigError name of the Zig error
+ * @param message message describing the error
+ * @param panicked whether the error aborted the call or has been returned as a value
+ * @returns the error instance
+ */
+function createInterplayError(zigError: string, message: string, panicked: boolean): InterplayError {
+    if(zigError === 'MismatchedType') {
+        return new InterplayTypeError(message, zigError);
+    }
+
+    return panicked ? new InterplayPanicError(message, zigError) : new InterplayError(message, zigError);
+}
+
+/**
+ * A JavaScript value with an explicitly chosen interplay type, instead of detecting it by the value itself.
+ */
+export class InterplayValue {
+    constructor(readonly type: InterplayTypeId, readonly value: any) {}
+}
+
+/**
+ * Pass an object as an opaque handle to Zig, even if it would be encoded by value otherwise (e.g. a `Map` or a plain
+ * object). Zig can access its properties and methods, and passing it back results in the identical object.
+ *
+ * @param value the object to pass by reference
+ * @returns the object wrapped as handle
+ */
+export function handle(value: object): InterplayValue {
+    return new InterplayValue(InterplayTypeId.handle, value);
+}
+
+/**
+ * Pass a value to Zig as CBOR instead of detecting its type. Unlike JSON, CBOR keeps `undefined`, bigints up to any
+ * size, binary data, `Date`, `Map` and `Set`, and it is more compact to copy and to decode.
+ *
+ * @param value the value to pass
+ * @returns the value wrapped as CBOR
+ */
+export function cbor(value: any): InterplayValue {
+    return new InterplayValue(InterplayTypeId.cbor, value);
+}
+
+/**
+ * Pass a number as float to Zig, even if it is a whole number that would be encoded as int or uint otherwise.
+ *
+ * @param value the number to pass
+ * @returns the number wrapped as float
+ */
+export function float(value: number | bigint): InterplayValue {
+    return new InterplayValue(InterplayTypeId.float, Number(value));
+}
+
+/**
+ * Pass an integer as int to Zig, even if it is positive and would be encoded as uint otherwise. The integer is checked
+ * against the range of the given bit width, e.g. 32 for an `i32` on the Zig side.
+ *
+ * @param value the integer to pass
+ * @param bits bit width of the signed integer on the Zig side
+ * @returns the integer wrapped as int
+ */
+export function int(value: number | bigint, bits = 124): InterplayValue {
+    const width = checkBitWidth(bits);
+    return new InterplayValue(InterplayTypeId.int, checkIntegerRange(value, -(1n << (width - 1n)), (1n << (width - 1n)) - 1n, `i${bits}`));
+}
+
+/**
+ * Pass an integer as uint to Zig. The integer is checked against the range of the given bit width, e.g. 8 for an `u8`
+ * on the Zig side.
+ *
+ * @param value the integer to pass
+ * @param bits bit width of the unsigned integer on the Zig side
+ * @returns the integer wrapped as uint
+ */
+export function uint(value: number | bigint, bits = 124): InterplayValue {
+    return new InterplayValue(InterplayTypeId.uint, checkIntegerRange(value, 0n, (1n << checkBitWidth(bits)) - 1n, `u${bits}`));
+}
+
+/**
+ * Copy a reference counted table, so the reference counts of the copy are independent.
+ *
+ * @param table the table to copy
+ * @returns the copy of the table
+ */
+function copyTable<T extends { refs: number }>(table: {[key: number]: T}): {[key: number]: T} {
+    return Object.fromEntries(Object.entries(table).map(([id, entry]) => [id, { ...entry }]));
+}
+
+/**
+ * Objects decoded from structs of Zig, which are encoded as structs again instead of JSON.
+ */
+const decodedStructs = new WeakSet<object>();
+
+/**
+ * Whether an object is a plain object, which is passed to Zig by value instead of as handle.
+ *
+ * @param value the object to check
+ * @returns whether the object is a plain object
+ */
+function isPlainObject(value: object): boolean {
+    const proto = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Whether JSON represents a value without losing anything. Bigints, functions, binary data and other objects that JSON
+ * doesn't know about are lost, unless they define their own representation with `toJSON` like a `Date`.
+ *
+ * @param value the value to check
+ * @returns whether the value fits into JSON
+ */
+function fitsJson(value: any): boolean {
+    switch(typeof value) {
+        case 'bigint':
+        case 'function':
+        case 'symbol':
+            return false;
+        case 'object':
+            if(value === null || typeof value.toJSON === 'function') return true;
+            if(Array.isArray(value)) return value.every(fitsJson);
+            if(!isPlainObject(value) || decodedStructs.has(value)) return false;
+            return Object.values(value).every(fitsJson);
+        default:
+            return true;
+    }
+}
+
+/**
+ * Whether a value is passed to Zig as iterator. These are ReadableStreams, async iterables and iterators like
+ * generators. Other iterables like arrays or maps keep their own interplay type.
+ *
+ * @param value the value to check
+ * @returns whether the value is passed as iterator
+ */
+function isIterableSource(value: any): boolean {
+    if(value === null || typeof value !== 'object') return false;
+
+    return (typeof ReadableStream !== 'undefined' && value instanceof ReadableStream)
+        || typeof value[Symbol.asyncIterator] === 'function'
+        || (typeof value.next === 'function' && typeof value[Symbol.iterator] === 'function');
+}
+
+/**
+ * Make sure a bit width fits into the 124 bits of an interplay type.
+ *
+ * @param bits the bit width to check
+ * @returns the bit width as bigint
+ */
+function checkBitWidth(bits: number): bigint {
+    if(!Number.isInteger(bits) || bits < 1 || bits > 124) {
+        throw new RangeError(`Bit width ${bits} is not an integer between 1 and 124.`);
+    }
+
+    return BigInt(bits);
+}
+
+/**
+ * Make sure a value is an integer within the given range.
+ *
+ * @param value the value to check
+ * @param min smallest allowed integer
+ * @param max largest allowed integer
+ * @param typeName name of the Zig type for the error message
+ * @returns the unchanged value
+ */
+function checkIntegerRange(value: number | bigint, min: bigint, max: bigint, typeName: string): number | bigint {
+    if(typeof value === 'number' && !Number.isInteger(value)) {
+        throw new RangeError(`${value} is not an integer.`);
+    }
+    if(BigInt(value) < min || BigInt(value) > max) {
+        throw new RangeError(`${value} is out of range of ${typeName}.`);
+    }
 
-        // Extract type and value sections
-        const { type, details } = this.#extractBitSections(ipl, [
-            ['type', 4],
-            ['details', 124]
-        ]);
+    return value;
+}
 
-        switch (Number(type)) {
-            case InterplayTypeId.void:
-                return { type };
-            case InterplayTypeId.bool:
-                return { type, value: ((details & 0x1n) == 1n) ? true : false };
-            case InterplayTypeId.int:
-                return { type, value: BigInt.asIntN(124, details) };
-            case InterplayTypeId.uint:
-                return { type, value: BigInt.asUintN(124, details) };
-            case InterplayTypeId.float: {
-                // We only care about the first 64bit for the float
-                const rawFloatValue = BigInt.asUintN(64, details);
+/**
+ * Serve an InterplayInstance to the spawning thread, see `InterplayInstance.spawnWorker`. This needs to be called by
+ * the worker script, which `worker.js` does already.
+ *
+ * @param scope the global scope of the worker
+ */
+export function serveWorker(scope: { onmessage: (e: MessageEvent) => any, postMessage: (message: any, transfer: Transferable[]) => void } = globalThis as any) {
+    let inst: InterplayInstance;
+
+    const endpoint = new WorkerEndpoint(scope, {
+        init: async (source, options: InterplayOptions = {}) => {
+            inst = await ((typeof source === 'string')
+                ? InterplayInstance.initializeFromUrl(source, options)
+                : InterplayInstance.initialize(source, options));
+
+            return Object.keys(inst.async);
+        },
+        call: async (name, ...args) => {
+            let calledBack = false;
+            try {
+                return await inst.async[name](...watchCallbacks(args, () => { calledBack = true; }));
+            } catch(e) {
+                // Functions of the calling side can't return their value to Zig synchronously, so Zig gets a promise
+                // of it instead. Exports expecting any other type fail on that, which is hard to tell from the error.
+                if(calledBack && e instanceof InterplayTypeError) {
+                    throw new InterplayTypeError(`Export '${name}' failed on the return of a function of the calling side, which is only passed to Zig as promise within a worker: ${e.message}`, e.zigError, { cause: e });
+                }
+                throw e;
+            }
+        },
+    });
 
-                // Move the value into a correct representation
-                const tempBuf = new ArrayBuffer(8);
-                const tempBufView = new DataView(tempBuf);
-                tempBufView.setBigUint64(0, rawFloatValue);
+    scope.onmessage = (e) => endpoint.receive(e.data);
+}
 
-                // Return correct float value
-                return { type, value: tempBufView.getFloat64(0) };
-            }
-            case InterplayTypeId.bytes: {
-                const buf = this.#decodeBytesLikeType(details);
+/**
+ * Wrap the functions within the arguments of a call, to notice whenever one of them is called.
+ *
+ * @param value the arguments or any value within them
+ * @param onCall called on each call of a function
+ * @returns the value with its functions wrapped
+ */
+function watchCallbacks(value: any, onCall: () => void): any {
+    if(typeof value === 'function') {
+        return (...args) => {
+            onCall();
+            return value(...args);
+        };
+    }
+    if(value instanceof InterplayValue) {
+        return new InterplayValue(value.type, watchCallbacks(value.value, onCall));
+    }
+    if(Array.isArray(value)) {
+        return value.map(v => watchCallbacks(v, onCall));
+    }
+    if(value instanceof Map) {
+        return new Map([...value].map(([k, v]) => [k, watchCallbacks(v, onCall)]));
+    }
+    if(value !== null && typeof value === 'object' && isPlainObject(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, watchCallbacks(v, onCall)]));
+    }
 
-                // NOTE: It is important to slice as the buf is only pointing to the raw WASM memory section
-                return { type, value: buf.slice() };
-            }
-            case InterplayTypeId.string: {
-                const buf = this.#decodeBytesLikeType(details);
-                const str = this.#textDecoder.decode(buf);
+    return value;
+}
 
-                return { type, value: str };
-            }
-            case InterplayTypeId.json: {
-                const buf = this.#decodeBytesLikeType(details);
-                const str = this.#textDecoder.decode(buf);
-                const json = JSON.parse(str)
+/**
+ * Message passed between the two sides of a worker. Requests are answered by a response with the same id.
+ */
+type WorkerMessage =
+    { kind: 'request', id: number, action: string, args: any[] } |
+    { kind: 'response', id: number, value?: any, error?: PostedError } |
+    { kind: 'release', id: number };
 
-                return { type, value: json };
-            }
-            case InterplayTypeId.function: {
-                // Create a function that behaves just like a JavaScript function
-                const f = function (...args) {
-                    // If the function is of JavaScript origin, we can just call it straight from the function table
-                    if(this.prototype.origin == 1) {
-                        return this.prototype.inst.#functionTable[this.prototype.ptr](args)
-                    } else {
-                        // Else we do a wrapped call to the referenced zig function
-                        return this.prototype.inst.#wrappedCall(this.prototype.inst.#wasm.call, this, args);
-                    }
-                }
-                // Extract pointer and origin of the function
-                const { ptr, origin } = this.#extractBitSections(details, [
-                    ['ptr', 32],
-                    ['origin', 1],
-                ])
+/**
+ * One side of the communication with a worker. Both sides are equal, so functions can be passed in both directions
+ * and are called on the side they originate from.
+ */
+class WorkerEndpoint {
+    #port: { postMessage: (message: any, transfer: Transferable[]) => void };
 
-                // Store function attributes in prototype so we can recoginize it again
-                f.prototype.ptr = ptr;
-                f.prototype.origin = origin;
-                f.prototype.inst = this;
+    /**
+     * Handlers of the requests by their action. Calls of passed functions are handled by the endpoint itself.
+     */
+    #handlers: {[action: string]: (...args: any[]) => any};
 
-                // Bind it to itself so we can reference this within the function
-                const boundF = f.bind(f);
-                // Copy over the prototype to the bound function
-                Object.setPrototypeOf(boundF, f.prototype);
+    /**
+     * Functions passed to the other side by their id. They are removed as soon as the other side dropped them.
+     */
+    #functions = new Map<number, Function>();
 
-                return { type, value: boundF };
-            }
-            case InterplayTypeId.array: {
-                // Extract pointer and number of items of the array
-                const { ptr, len } = this.#extractBitSections(details, [
-                    ['ptr', 32],
-                    ['len', 32],
-                ])
+    #nextFunctionId = 0;
 
-                // View as array of u64, the length is twice as long as the number of items because len * 128bit = len * 2 * 64bit
-                const tempBuf = new BigUint64Array((this.#wasm.memory as unknown as Uint8Array).buffer, Number(ptr), Number(len * 2n));
+    /**
+     * Resolvers of the requests that have not been answered yet.
+     */
+    #pending = new Map<number, { resolve: (value: any) => void, reject: (reason: any) => void }>();
 
-                const decodedArray = [];
-                for(let i = 0; i < len; i++) {
-                    const iplVariable = Array.from(tempBuf.subarray(i * 2, (i + 1) * 2)) as InterplayType;
-                    const variable = this.#decodeInterplayType(iplVariable);
+    #nextRequestId = 0;
 
-                    decodedArray.push(variable.value);
-                }
+    /**
+     * Tells the other side once a function passed from there has been garbage collected.
+     */
+    #functionRegistry = new FinalizationRegistry<number>((id) => this.#port?.postMessage({ kind: 'release', id }, []));
 
-                return { type, value: decodedArray };
-            }
-            default:
-                throw new Error(`Interplay type ${type} is not supported for decoding.`)
-        }
+    constructor(port: { postMessage: (message: any, transfer: Transferable[]) => void }, handlers: {[action: string]: (...args: any[]) => any}) {
+        this.#port = port;
+        this.#handlers = handlers;
     }
 
     /**
-     * Encode a JavaScript value to the corresponding interplay type. This may require allocation in memory in order to
-     * transfer the full value to the WASM environment. There is no automatic free and this needs to be done manually
-     * after the interplay type has been used.
-     * 
-     * @param value javascript value to encode
-     * @returns encoded javascript value as interplay type
+     * Send a request to the other side.
+     *
+     * @param action the action to perform
+     * @param args the arguments of the action
+     * @returns promise of the result of the action
      */
-    #encodeInterplayType(value: any): InterplayType {
-        // Detect interplay type for the value so we can continue to encode it
-        const iplType = this.#mapValueToInterplayTypeId(value);
-        // Temporary placeholder for the value within the interplay type
-        let iplValue: bigint = 0n;
+    request(action: string, args: any[]): Promise<any> {
+        if(!this.#port) {
+            return Promise.reject(new Error('Worker has been terminated.'));
+        }
 
-        switch (iplType) {
-            case InterplayTypeId.void:
-                break;
-            case InterplayTypeId.bool:
-            case InterplayTypeId.int:
-            case InterplayTypeId.uint:
-                // No special encoding required here, but cutting it down to 124bit
-                iplValue = BigInt.asUintN(124, BigInt(value));
-                break;
-            case InterplayTypeId.float: {
-                // Create a temporary buffer of size 64bit
-                const tempBuf = new ArrayBuffer(8);
-                const tempBufView = new DataView(tempBuf);
-                // Cut down the float to 64bit to match zig side
-                tempBufView.setFloat64(0, value);
-                // Extract set 64bit float as 64bit unsigned integer
-                iplValue = tempBufView.getBigUint64(0);
-                break; 
-            }
-            case InterplayTypeId.bytes: {
-                // We accept Uint8array and ArrayBuffer, so we need to find a common here
-                const buf = (value instanceof Uint8Array) ? value : new Uint8Array(value);
-                iplValue = this.#encodeBytesLikeType(buf);
-                break;
-            }
-            case InterplayTypeId.string: {
-                // Encode the string to raw bytes that we can actually allocate and copy
-                const buf = this.#textEncoder.encode(value);
-                iplValue = this.#encodeBytesLikeType(buf);
-                break;
-            }
-            case InterplayTypeId.json: {
-                // Encode the string to raw bytes that we can actually allocate and copy
-                const buf = this.#textEncoder.encode(JSON.stringify(value));
-                iplValue = this.#encodeBytesLikeType(buf);
+        const id = this.#nextRequestId++;
+        const transfer = new Set<Transferable>();
+        const message = { kind: 'request', id, action, args: args.map(a => this.#marshal(a, transfer)) };
+
+        return new Promise((resolve, reject) => {
+            this.#pending.set(id, { resolve, reject });
+            this.#port.postMessage(message, [...transfer]);
+        });
+    }
+
+    /**
+     * Handle a message of the other side.
+     *
+     * @param message the received message
+     */
+    async receive(message: WorkerMessage) {
+        switch(message.kind) {
+            case 'request': {
+                const transfer = new Set<Transferable>();
+                let response: WorkerMessage;
+                try {
+                    const args = message.args.map(a => this.#unmarshal(a));
+                    const value = await ((message.action === 'callback')
+                        ? this.#functions.get(args[0])(...args.slice(1))
+                        : this.#handlers[message.action](...args));
+
+                    response = { kind: 'response', id: message.id, value: this.#marshal(value, transfer) };
+                } catch(e) {
+                    response = { kind: 'response', id: message.id, error: postError(e) };
+                }
+                this.#port?.postMessage(response, [...transfer]);
                 break;
             }
-            case InterplayTypeId.function: {
-                // Check if we have a Zig function given to us. If so, we can just directly encode its details.
-                if(value.prototype && Object.hasOwn(value.prototype, 'origin') && Object.hasOwn(value.prototype, 'ptr') && value.prototype.origin == 0) {
-                    // Encode the pointer and origin of the zig function
-                    iplValue = (BigInt.asUintN(1, value.prototype.origin) << 32n) | BigInt.asUintN(32, value.prototype.ptr);
+            case 'response': {
+                const pending = this.#pending.get(message.id);
+                this.#pending.delete(message.id);
+
+                if(message.error) {
+                    pending?.reject(reviveError(message.error));
                 } else {
-                    // Get the next key for the new JS function
-                    const key = Object.keys(this.#functionTable).length;
-                    // Store the js function in our internal function table
-                    this.#functionTable[key] = (args) => {
-                        return value(...args)
-                    };
-                    // Encode the key as the pointer and set JS as the function origin
-                    iplValue = (BigInt.asUintN(1, 1n) << 32n) | BigInt.asUintN(32, BigInt(key));
+                    pending?.resolve(this.#unmarshal(message.value));
                 }
                 break;
             }
-            case InterplayTypeId.array: {
-                // Check if an empty array is given to us. If so, we can just leave all bits at zero.
-                if(value.length == 0) break;
-                // Calculate the length of the space we need to allocate (number of items * 128bit = number of items * 16bytes)
-                const bufLen = value.length * 16;
-                const ptr = this.#wasmAlloc(bufLen);
-                // We can view this space as an array of InterplayTypesHalf
-                const tempBuf = new BigUint64Array((this.#wasm.memory as unknown as Uint8Array).buffer, ptr, bufLen);
-                // Encode each value of the given array and store its InterplayType in the allocated buffer
-                for(let i = 0; i < value.length; i++) {
-                    const encodedEl = this.#encodeInterplayType(value[i]);
-                    
-                    tempBuf[i * 2] = encodedEl[0];
-                    tempBuf[(i * 2) + 1] = encodedEl[1];
-                }
-                // Encode the pointer and number of items
-                iplValue = (BigInt.asUintN(32, BigInt(value.length)) << 32n) | BigInt.asUintN(32, BigInt(ptr));
+            case 'release':
+                this.#functions.delete(message.id);
                 break;
-            }
-            default:
-                throw new Error(`Interplay type ${iplType} is not supported for encoding.`)
         }
-
-        // Merge type and value to 128bit bigint
-        let fullInfo = BigInt.asUintN(4, BigInt(iplType)) | (BigInt.asUintN(124, BigInt(iplValue)) << 4n);
-        // Split 128bit bigint to two 64bit chunks
-        let r: InterplayType = [BigInt.asUintN(64, fullInfo), BigInt.asUintN(64, fullInfo >> 64n)]
-
-        return r;
     }
 
     /**
-     * This is a shortcut to easily read bytes like interplay types from memory. It is important to note, that this function
-     * does no return a copy of the memory section, but rather points at it. If you return this and modify it without the purpose
-     * of modifying it in the actual memory, please create a copy of this buffer.
-     * 
-     * @param value interplay type that implements the bytes like interface
-     * @returns the buffer pointing to the memory section
+     * Reject all pending requests and stop sending messages.
+     *
+     * @param reason the reason for the pending requests
      */
-    #decodeBytesLikeType(value: bigint) {
-        // Extract pointer and length from the details
-        const { ptr, len } = this.#extractBitSections(value, [
-            ['ptr', 32],
-            ['len', 32],
-        ]);
-        // Return a specific uint8array for that memory region
-        return new Uint8Array((this.#wasm.memory as unknown as Uint8Array).buffer, Number(ptr), Number(len));
+    close(reason: Error) {
+        for(const { reject } of this.#pending.values()) {
+            reject(reason);
+        }
+        this.#pending.clear();
+        this.#functions.clear();
+        this.#port = undefined;
     }
 
     /**
-     * This is a shortcut to easily copy bytes like interplay types to memory. This copies the given buffer and the given buffer
-     * is free to be cleared/freed or used otherwise after this call.
-     * 
-     * @param buf to copy as bytes like interplay type to wasm memory
-     * @returns encoded interplay type for this buffer
+     * Prepare a value to be posted to the other side. Functions are replaced by placeholders and buffers are moved.
+     *
+     * @param value the value to prepare
+     * @param transfer collects the buffers to move
+     * @returns the value to post
      */
-    #encodeBytesLikeType(buf: Uint8Array): bigint {
-        const len = buf.byteLength;
-        // Allocate space in the wasm memory where we can copy these bytes
-        const ptr = this.#wasmAlloc(len);
-        // Copy the buffer data over to the wasm memory
-        new Uint8Array((this.#wasm.memory as unknown as Uint8Array).buffer, ptr, len).set(buf);
-        // Encode the pointer and length
-        return (BigInt.asUintN(32, BigInt(len)) << 32n) | BigInt.asUintN(32, BigInt(ptr));
+    #marshal(value: any, transfer: Set<Transferable>): any {
+        if(typeof value === 'function') {
+            const id = this.#nextFunctionId++;
+            this.#functions.set(id, value);
+            return { [workerFunctionMarker]: id };
+        }
+        if(value instanceof InterplayValue) {
+            return { [workerValueMarker]: value.type, value: this.#marshal(value.value, transfer) };
+        }
+        if(value instanceof ArrayBuffer) {
+            transfer.add(value);
+            return value;
+        }
+        if(ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+            // Views of a part of a buffer, e.g. of the WASM memory, are copied first. Otherwise the whole buffer would
+            // be cloned or moved.
+            const view = (value.byteOffset === 0 && value.byteLength === value.buffer.byteLength) ? value : (value as Uint8Array).slice();
+            if(view.buffer instanceof ArrayBuffer) transfer.add(view.buffer);
+            return view;
+        }
+        if(Array.isArray(value)) {
+            return value.map(v => this.#marshal(v, transfer));
+        }
+        if(value instanceof Map) {
+            return new Map([...value].map(([k, v]) => [k, this.#marshal(v, transfer)]));
+        }
+        if(value !== null && typeof value === 'object' && isPlainObject(value)) {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.#marshal(v, transfer)]));
+        }
+
+        return value;
     }
 
     /**
-     * Memory allocation wrapper to simplfiy typing around it. See Zig wasm_allocator for details.
-     * 
-     * @param len the number of bytes to allocate
-     * @returns a ptr to the allocated space or -1 as an error
+     * Restore a value that has been posted by the other side. Placeholders of functions are replaced by functions
+     * calling them on the other side.
+     *
+     * @param value the received value
+     * @returns the restored value
      */
-    #wasmAlloc(len: number|bigint) {
-        if(Number(len) < 0) return -1;
-
-        const alloc = this.#wasm.alloc as (len: number) => number;
+    #unmarshal(value: any): any {
+        if(value === null || typeof value !== 'object') {
+            return value;
+        }
+        if(Object.hasOwn(value, workerFunctionMarker)) {
+            const id = value[workerFunctionMarker];
+            const f = (...args) => this.request('callback', [id, ...args]);
+            this.#functionRegistry.register(f, id);
+            return f;
+        }
+        if(Object.hasOwn(value, workerValueMarker)) {
+            return new InterplayValue(value[workerValueMarker], this.#unmarshal(value.value));
+        }
+        if(Array.isArray(value)) {
+            return value.map(v => this.#unmarshal(v));
+        }
+        if(value instanceof Map) {
+            return new Map([...value].map(([k, v]) => [k, this.#unmarshal(v)]));
+        }
+        if(isPlainObject(value)) {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.#unmarshal(v)]));
+        }
 
-        return alloc(Number(len) >>> 32);
+        return value;
     }
+}
 
+/**
+ * The details of an error posted to the other side of a worker, as the error classes are lost on the way.
+ */
+interface PostedError {
+    name: string;
+    message: string;
+    zigError?: string;
     /**
-     * Memory free wrapper to simplify typing around it. See Zig wasm_allocator for details.
-     * 
-     * @param ptr pointer of the memory space to free
-     * @param len length of the region to free
+     * The error class, if it is one of ours. NOTE: The class names can't be used, as they are mangled by minifiers.
      */
-    #wasmFree(ptr: number|bigint, len: number|bigint) {
-        if(Number(len) < 0) return;
+    interplayClass?: 'panic' | 'type' | 'error';
+}
 
-        const free = this.#wasm.free as (ptr: number, len: number) => void;
+/**
+ * Prepare an error to be posted to the other side of a worker.
+ *
+ * @param e the error to post
+ * @returns the details of the error
+ */
+function postError(e: any): PostedError {
+    const interplayClass = (e instanceof InterplayPanicError) ? 'panic'
+        : (e instanceof InterplayTypeError) ? 'type'
+        : (e instanceof InterplayError) ? 'error' : undefined;
 
-        free(Number(ptr) >>> 32, Number(len) >>> 32)
+    return { name: e?.name, message: e?.message ?? String(e), zigError: e?.zigError, interplayClass };
+}
+
+/**
+ * Restore an error that has been posted by the other side of a worker.
+ *
+ * @param error the posted details of the error
+ * @returns the restored error
+ */
+function reviveError({ name, message, zigError, interplayClass }: PostedError): Error {
+    switch(interplayClass) {
+        case 'panic':
+            return new InterplayPanicError(message, zigError);
+        case 'type':
+            return new InterplayTypeError(message, zigError);
+        case 'error':
+            return new InterplayError(message, zigError);
     }
 
-    /**
-     * As soon as a call to the WASM function os over or the return has been decoded into a JavaScript value, any allocations
-     * done for those types, on both Zig and JS side, will be freed with this function.
-     * 
-     * @param value the interplay type to free the allocated resources for
-     */
-    #freeEncodedInterplayType(value: InterplayType) {
-        // TODO: Currently the base of this function is repeating code of the #decodeInterplayType function and should be reworked.
+    const error = new Error(message);
+    if(name) error.name = name;
+    return error;
+}
 
-        // Merge the interplay type to a single u128 value
-        const ipl = BigInt.asUintN(64, value[0]) | (BigInt.asUintN(64, value[1]) << 64n);
+/**
+ * Keys of the placeholders of functions and explicitly typed values passed between the sides of a worker.
+ */
+const workerFunctionMarker = '__interplayFunction';
+const workerValueMarker = '__interplayValue';
 
-        // Extract type and value sections
-        const { type, details } = this.#extractBitSections(ipl, [
-            ['type', 4],
-            ['details', 124]
-        ]);
+/**
+ * Prefix of the exported functions that return the value of a constant exported by Zig.
+ */
+const constantExportPrefix = 'ipl_const_';
 
-        // Handle all the different types
-        switch (Number(type)) {
-            case InterplayTypeId.void:
-            case InterplayTypeId.bool:
-            case InterplayTypeId.int:
-            case InterplayTypeId.uint:
-            case InterplayTypeId.float:
-                // These types don't allocate any space and are only stored in the interplay type itself.
-                break;
-            case InterplayTypeId.bytes:
-            case InterplayTypeId.string:
-            case InterplayTypeId.json: {
-                // Extract pointer and length from the details
-                const { ptr, len } = this.#extractBitSections(details, [
-                    ['ptr', 32],
-                    ['len', 32],
-                ]);
+/**
+ * The log levels from the most to the least verbose, and the ones of Zig by their value in `std.log.Level`.
+ */
+const logLevels: InterplayLogLevel[] = ['debug', 'info', 'warn', 'error'];
+const zigLogLevels: InterplayLogLevel[] = ['error', 'warn', 'info', 'debug'];
 
-                this.#wasmFree(ptr, len);
-                break;
-            }
-            case InterplayTypeId.function: {
-                // Extract pointer and origin of the function
-                const { ptr, origin } = this.#extractBitSections(details, [
-                    ['ptr', 32],
-                    ['origin', 1],
-                ])
+/**
+ * The default logger. NOTE: The console is looked up on each message, so it can be replaced at any time.
+ */
+const consoleLogger: InterplayLogger = {
+    debug: (message) => console.debug(message),
+    info: (message) => console.log(message),
+    warn: (message) => console.warn(message),
+    error: (message) => console.error(message),
+};
 
-                // We only have to do a cleanup on a JavaScript function
-                if(origin === 1n) {
-                    delete this.#functionTable[Number(ptr)];
-                }
-                break;
-            }
-            case InterplayTypeId.array: {
-                // Extract pointer and number of items of the array
-                const { ptr, len } = this.#extractBitSections(details, [
-                    ['ptr', 32],
-                    ['len', 32],
-                ])
+/**
+ * Size of a page of the WASM memory in bytes.
+ */
+const wasmPageSize = 65536;
 
-                // View as array of u64, the length is twice as long as the number of items because len * 128bit = len * 2 * 64bit
-                const tempBuf = new BigUint64Array((this.#wasm.memory as unknown as Uint8Array).buffer, Number(ptr), Number(len * 2n));
+/**
+ * Prefix of the exported functions that return the signature of an export, see exportSignature in interplay.zig.
+ */
+const signatureExportPrefix = 'ipl_sig_';
 
-                for(let i = 0; i < len; i++) {
-                    const iplVariable = Array.from(tempBuf.subarray(i * 2, (i + 1) * 2)) as InterplayType;
-                    this.#freeEncodedInterplayType(iplVariable);
-                }
+/**
+ * Types within a signature are the interplay type id, optionally marked as optional, or any type.
+ */
+const signatureAny = 0xff;
+const signatureOptional = 0x10;
 
-                // Free the array itself (1item = 128 bit = 16 bytes)
-                this.#wasmFree(ptr, len * 16n);
-                break;
-            }
-            default:
-                throw new Error(`Interplay type ${type} is not supported for decoding.`)
-        }
-    }
+/**
+ * Signature of an export with the types of its return and each parameter.
+ */
+interface ExportSignature {
+    returns: number;
+    params: number[];
 }
 
+/**
+ * The typed array constructors by their element kind. This is the equivalent to the TypedArrayKind in the interplay.zig
+ * file.
+ */
+const typedArrayKinds = [
+    Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array, Float32Array, Float64Array,
+    BigInt64Array, BigUint64Array
+];
+
 /**
  * This is the equivalent to the InterplayTypeId in the interplay.zig file.
  */
@@ -588,5 +3300,11 @@ export enum InterplayTypeId {
     string = 6,
     json = 7,
     function = 8,
-    array = 9
+    array = 9,
+    error = 10,
+    promise = 11,
+    struct = 12,
+    typedarray = 13,
+    handle = 14,
+    cbor = 15
 };
\ No newline at end of file
@@ -1,7 +1,65 @@
 const std = @import("std");
+const builtin = @import("builtin");
 
-/// The internal allocator used by Interplay.
-pub const allocator = std.heap.wasm_allocator;
+/// The internal allocator used by Interplay. It is backed by the wasm_allocator and reports each allocation to the JS
+/// side while tracking is enabled, see the debug mode of the InterplayInstance. Modules built with threads use a
+/// thread-safe allocator instead, as multiple instances may allocate within the same shared memory.
+pub const allocator = std.mem.Allocator{
+    .ptr = undefined,
+    .vtable = &TrackingAllocator.vtable,
+};
+
+const backing_allocator = if (builtin.single_threaded) std.heap.wasm_allocator else shared_allocator.allocator();
+
+// The wasm_allocator only supports a single thread
+var shared_allocator = std.heap.GeneralPurposeAllocator(.{ .MutexType = SpinLock }){};
+
+// Waiting for an atomic is not allowed on the main thread of browsers, so the lock spins instead. It is only held
+// for the duration of a single allocation.
+const SpinLock = struct {
+    locked: std.atomic.Value(bool) = std.atomic.Value(bool).init(false),
+
+    pub fn lock(self: *SpinLock) void {
+        while (self.locked.swap(true, .acquire)) std.atomic.spinLoopHint();
+    }
+
+    pub fn unlock(self: *SpinLock) void {
+        self.locked.store(false, .release);
+    }
+};
+
+// Enabled by the JS side in debug mode, as reporting each allocation slows down every call
+var tracking_enabled = false;
+
+pub export fn ipl_set_tracking(enabled: bool) void {
+    tracking_enabled = enabled;
+}
+
+const TrackingAllocator = struct {
+    const vtable: std.mem.Allocator.VTable = .{
+        .alloc = trackedAlloc,
+        .resize = trackedResize,
+        .free = trackedFree,
+    };
+
+    fn trackedAlloc(_: *anyopaque, len: usize, ptr_align: u8, ret_addr: usize) ?[*]u8 {
+        const ptr = backing_allocator.rawAlloc(len, ptr_align, ret_addr) orelse return null;
+        if (tracking_enabled) js.allocated(@intFromPtr(ptr), len);
+        return ptr;
+    }
+
+    fn trackedResize(_: *anyopaque, buf: []u8, buf_align: u8, new_len: usize, ret_addr: usize) bool {
+        if (!backing_allocator.rawResize(buf, buf_align, new_len, ret_addr)) return false;
+        // Reporting the same pointer again updates its size
+        if (tracking_enabled) js.allocated(@intFromPtr(buf.ptr), new_len);
+        return true;
+    }
+
+    fn trackedFree(_: *anyopaque, buf: []u8, buf_align: u8, ret_addr: usize) void {
+        backing_allocator.rawFree(buf, buf_align, ret_addr);
+        if (tracking_enabled) js.freed(@intFromPtr(buf.ptr), buf.len);
+    }
+};
 
 // Expose the alloc function so we can pass large values
 // from js to the wasm environment.
@@ -16,6 +74,101 @@ pub export fn free(buf: [*]u8, length: usize) void {
     allocator.free(buf[0..length]);
 }
 
+// Typed arrays from the JS space need to be aligned to their element size. Memory is freed with the same alignment.
+pub export fn ipl_alloc_aligned(length: usize, log2_align: u8) ?[*]u8 {
+    return allocator.rawAlloc(length, log2_align, @returnAddress());
+}
+
+pub export fn ipl_free_aligned(buf: [*]u8, length: usize, log2_align: u8) void {
+    allocator.rawFree(buf[0..length], log2_align, @returnAddress());
+}
+
+// Throwing in the JS environment, e.g. by fail, unwinds a call without restoring the stack pointer. The JS side saves it
+// before each call and restores it once a call failed.
+pub export fn ipl_stack_pointer() usize {
+    return asm volatile (
+        \\ global.get __stack_pointer
+        \\ local.set %[ret]
+        : [ret] "=r" (-> usize),
+    );
+}
+
+pub export fn ipl_set_stack_pointer(addr: usize) void {
+    setStackPointer(@ptrFromInt(addr));
+}
+
+// NOTE: The stack pointer is only accessible via the symbol of the linker, just like std.Thread does for WASI threads
+inline fn setStackPointer(addr: [*]u8) void {
+    asm volatile (
+        \\ local.get %[ptr]
+        \\ global.set __stack_pointer
+        :
+        : [ptr] "r" (addr),
+    );
+}
+
+comptime {
+    if (!builtin.single_threaded) {
+        @export(threads.alloc, .{ .name = "ipl_thread_alloc" });
+        @export(threads.init, .{ .name = "ipl_thread_init" });
+        @export(threads.free, .{ .name = "ipl_thread_free" });
+    }
+}
+
+// Each instance on the same shared memory needs its own stack and thread local storage. The instance sharing its
+// memory allocates both in a single block, which the new instance switches to before anything else runs.
+const threads = struct {
+    // Same as the default stack size of the main thread
+    const stack_size = 1024 * 1024;
+
+    fn alloc() callconv(.C) ?[*]align(16) u8 {
+        const block = allocator.alignedAlloc(u8, 16, blockSize()) catch return null;
+        return block.ptr;
+    }
+
+    fn init(block: [*]align(16) u8) callconv(.C) void {
+        // The stack grows downwards, so it starts at its end. The thread local storage follows the stack.
+        setStackPointer(block + stack_size);
+        initTls(@ptrFromInt(std.mem.alignForward(usize, @intFromPtr(block + stack_size), tlsAlign())));
+    }
+
+    fn free(block: [*]align(16) u8) callconv(.C) void {
+        allocator.free(block[0..blockSize()]);
+    }
+
+    fn blockSize() usize {
+        return stack_size + tlsSize() + tlsAlign();
+    }
+
+    // NOTE: The thread local storage is only accessible via the symbols of the linker, see setStackPointer. Their
+    //       types need to be declared, otherwise the linker takes them as data.
+    inline fn initTls(addr: [*]u8) void {
+        __wasm_init_tls(addr);
+    }
+
+    // Generated by the linker
+    extern fn __wasm_init_tls(memory: [*]u8) void;
+
+    inline fn tlsSize() u32 {
+        return asm volatile (
+            \\ .globaltype __tls_size, i32, immutable
+            \\ global.get __tls_size
+            \\ local.set %[ret]
+            : [ret] "=r" (-> u32),
+        );
+    }
+
+    inline fn tlsAlign() u32 {
+        const alignment = asm volatile (
+            \\ .globaltype __tls_align, i32, immutable
+            \\ global.get __tls_align
+            \\ local.set %[ret]
+            : [ret] "=r" (-> u32),
+        );
+        return @max(alignment, 1);
+    }
+};
+
 // Call a zig function by reference
 pub export fn call(function: Function, args: Array) AnyType {
     if (function.origin != .zig) {
@@ -28,13 +181,132 @@ pub export fn call(function: Function, args: Array) AnyType {
 // External functions that are hooked in from the JS enviornment.
 pub const js = struct {
     pub extern "js" fn log(arg: String) void;
+    // The message is only borrowed by the JS side, see logFn
+    extern "js" fn logWithLevel(level: u32, message: String) void;
+    // The JS side takes ownership of the arguments, unless they have been passed to us by the JS side
     extern "js" fn call(function: Function, args: Array) AnyType;
+    // Throws the given error on the JS side, this never returns.
+    extern "js" fn panic(err: Error) void;
+    extern "js" fn functionRetain(function: Function) void;
+    extern "js" fn functionRelease(function: Function) void;
+    extern "js" fn handleGet(handle: Handle, name: String) AnyType;
+    extern "js" fn handleSet(handle: Handle, name: String, value: AnyType) void;
+    extern "js" fn handleCall(handle: Handle, name: String, args: Array) AnyType;
+    extern "js" fn handleRetain(handle: Handle) void;
+    extern "js" fn handleRelease(handle: Handle) void;
+    extern "js" fn promiseCreate() Promise;
+    extern "js" fn promiseRetain(promise: Promise) void;
+    extern "js" fn promiseRelease(promise: Promise) void;
+    extern "js" fn promiseResolve(promise: Promise, value: AnyType) void;
+    extern "js" fn promiseReject(promise: Promise, reason: AnyType) void;
+    extern "js" fn promiseThen(promise: Promise, callback: Function) Promise;
+    extern "js" fn promiseCatch(promise: Promise, callback: Function) Promise;
+    extern "js" fn allocated(ptr: usize, len: usize) void;
+    extern "js" fn freed(ptr: usize, len: usize) void;
 };
 
-pub const InterplayTypeId = enum(u4) { void = 0, bool = 1, int = 2, uint = 3, float = 4, bytes = 5, string = 6, json = 7, function = 8, array = 9 };
+/// Log function for `std.log`, which passes the messages with their level to the logger of the JS side.
+///
+/// `pub const std_options: std.Options = .{ .logFn = ipl.logFn };`
+pub fn logFn(comptime level: std.log.Level, comptime scope: @Type(.EnumLiteral), comptime format: []const u8, args: anytype) void {
+    const prefix = if (scope == .default) "" else "(" ++ @tagName(scope) ++ ") ";
+    const message = std.fmt.allocPrint(allocator, prefix ++ format, args) catch return;
+    defer allocator.free(message);
+
+    js.logWithLevel(@intFromEnum(level), String.borrow(message));
+}
+
+/// Declare a host function that is provided via the `imports` option on the JS side. The function type uses Interplay
+/// Types for its parameters and return, e.g. `fn (String, Integer) callconv(.C) AnyType`. Arguments are only borrowed
+/// by the JS side and the returned value is owned by us.
+///
+/// `const fetchConfig = ipl.hostFunction("fetchConfig", fn (String) callconv(.C) JSON);`
+pub fn hostFunction(comptime name: []const u8, comptime T: type) *const T {
+    return @extern(*const T, .{ .name = name, .library_name = "js" });
+}
+
+/// Declare a function exported by a sibling module, which is linked by an `InterplayRegistry` on the JS side. The
+/// function type uses Interplay Types just like `hostFunction`. Values are copied into the memory of the sibling and its
+/// return is copied back, functions are passed as references calling into the module they belong to.
+///
+/// `const add = ipl.importFunction("math", "add", fn (Integer, Integer) callconv(.C) Integer);`
+pub fn importFunction(comptime module: []const u8, comptime name: []const u8, comptime T: type) *const T {
+    return @extern(*const T, .{ .name = name, .library_name = module });
+}
+
+/// Export a constant value, which is accessible as a property of the instance on the JS side. The value is converted
+/// with toAny on each access, so anything supported by toAny can be exported, e.g. strings, numbers or structs.
+///
+/// `comptime { ipl.exportConstant("version", "1.2.3"); }`
+pub fn exportConstant(comptime name: []const u8, comptime v: anytype) void {
+    const Constant = struct {
+        fn get() callconv(.C) AnyType {
+            return toAny(v);
+        }
+    };
+    @export(Constant.get, .{ .name = "ipl_const_" ++ name });
+}
+
+/// Export the signature of an exported function, so the JS side validates and converts the arguments before calling it.
+/// Parameters of AnyType accept any value.
+///
+/// `comptime { ipl.exportSignature("greet", greet); }`
+pub fn exportSignature(comptime name: []const u8, comptime function: anytype) void {
+    const info = @typeInfo(@TypeOf(function)).Fn;
+    // The type of the return followed by the types of the parameters
+    const signature = comptime blk: {
+        var types: [info.params.len + 1]u8 = undefined;
+        types[0] = signatureType(info.return_type.?);
+        for (info.params, 1..) |param, i| {
+            types[i] = signatureType(param.type.?);
+        }
+        break :blk types;
+    };
+    const Signature = struct {
+        fn get() callconv(.C) AnyType {
+            return Bytes.init(&signature).asAny();
+        }
+    };
+    @export(Signature.get, .{ .name = "ipl_sig_" ++ name });
+}
+
+// Types within a signature are their InterplayTypeId, optionally marked as optional, or any type
+const signature_any: u8 = 0xff;
+const signature_optional: u8 = 0x10;
+
+fn signatureType(comptime T: type) u8 {
+    if (!isInterplayType(T)) return signature_any;
+    if (@hasDecl(T, "Some")) return signatureType(T.Some) | signature_optional;
+    // Errors of a Result are thrown on the JS side, so only the value is left
+    if (@hasDecl(T, "Ok")) return signatureType(T.Ok);
+
+    // Interplay Types with a fixed type id have it as default value, unlike AnyType
+    const default = std.meta.fieldInfo(T, .type).default_value orelse return signature_any;
+    return @intFromEnum(@as(*const InterplayTypeId, @ptrCast(@alignCast(default))).*);
+}
+
+pub const InterplayTypeId = enum(u4) { void = 0, bool = 1, int = 2, uint = 3, float = 4, bytes = 5, string = 6, json = 7, function = 8, array = 9, @"error" = 10, promise = 11, @"struct" = 12, typedarray = 13, handle = 14, cbor = 15 };
 
 fn assertType(a: InterplayTypeId, b: InterplayTypeId) void {
-    if (a != b) @panic("Mismatched type");
+    if (a != b) fail(error.MismatchedType, "Mismatched type");
+}
+
+/// Abort the current call and throw the error with the given message in the JS environment.
+/// Nothing is allocated here, so this is safe to use even if the allocator is the reason to fail.
+pub fn fail(err: anyerror, message: []const u8) noreturn {
+    // The details only need to live until the JS side has decoded them, so the stack is fine.
+    var details = [2]AnyType{ String.borrow(@errorName(err)).asAny(), String.borrow(message).asAny() };
+    js.panic(.{ .ptr = @intFromPtr(&details) });
+
+    // NOTE: The JS side always throws, this is only reached if the import misbehaves.
+    @trap();
+}
+
+/// Panic handler that routes any panic to the JS environment instead of trapping. Zig only picks
+/// up the panic handler from the root source file, so it needs to be re-exported there with
+/// `pub const panic = ipl.panic;`.
+pub fn panic(msg: []const u8, _: ?*std.builtin.StackTrace, _: ?usize) noreturn {
+    fail(error.Panic, msg);
 }
 
 pub const InterplayType = u128;
@@ -46,15 +318,29 @@ pub const AnyType = packed struct(InterplayType) {
 
 pub const Void = packed struct(InterplayType) {
     type: InterplayTypeId = .void,
-    _: u124 = 0,
+    // Distinguishes `null` from `undefined` on the JS side
+    null: bool = false,
+    _: u123 = 0,
 
     pub fn init() @This() {
         return .{};
     }
 
+    pub fn initNull() @This() {
+        return .{ .null = true };
+    }
+
+    pub fn isNull(self: @This()) bool {
+        return self.null;
+    }
+
     pub fn value(_: @This()) void {
         return undefined;
     }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
 };
 
 pub const Bool = packed struct(InterplayType) {
@@ -79,11 +365,19 @@ pub const Bool = packed struct(InterplayType) {
     }
 };
 
-fn bitFillerType(comptime size: usize) type {
-    if (size > 0) {
-        return [size]u1;
-    }
-    return void;
+// Pointers follow the compile target (.wasm32 or .wasm64). On memory64 the lengths are cut to fit the
+// remaining bits and a flag, which still allows far more elements than any memory could hold.
+const Length = if (@bitSizeOf(usize) == 64) u59 else u32;
+const TypedArrayLength = if (@bitSizeOf(usize) == 64) u55 else u32;
+
+// Tells the JS side how pointers and lengths are laid out
+pub export fn ipl_pointer_bits() u32 {
+    return @bitSizeOf(usize);
+}
+
+// Unsigned integer filling the bits of an interplay type that are not used by its type id and details
+fn BitFiller(comptime used: usize) type {
+    return std.meta.Int(.unsigned, @bitSizeOf(InterplayType) - @bitSizeOf(InterplayTypeId) - used);
 }
 
 fn IntegerLikeType(comptime iplType: InterplayTypeId, comptime T: type) type {
@@ -92,7 +386,7 @@ fn IntegerLikeType(comptime iplType: InterplayTypeId, comptime T: type) type {
         v: T,
 
         // Fill remaining bits
-        _: bitFillerType(@bitSizeOf(InterplayType) - @bitSizeOf(InterplayTypeId) - @bitSizeOf(T)) = undefined,
+        _: BitFiller(@bitSizeOf(T)) = 0,
 
         pub fn init(v: T) @This() {
             return .{
@@ -105,6 +399,11 @@ fn IntegerLikeType(comptime iplType: InterplayTypeId, comptime T: type) type {
             return self.v;
         }
 
+        // Get the value as a narrower integer type, like i32 or u8. Values out of its range fail the call.
+        pub fn as(self: @This(), comptime N: type) N {
+            return std.math.cast(N, self.value()) orelse fail(error.Overflow, "Integer out of range of " ++ @typeName(N));
+        }
+
         pub fn asAny(self: @This()) AnyType {
             return @bitCast(self);
         }
@@ -127,9 +426,15 @@ pub const Float = packed struct(InterplayType) {
         };
     }
 
+    // Whole numbers are passed as int or uint by the JS side, unless they are wrapped with `float()`, so these are
+    // accepted as well
     pub fn value(self: @This()) f64 {
-        assertType(self.type, .float);
-        return self.v;
+        return switch (self.type) {
+            .float => self.v,
+            .int => @floatFromInt(@as(Integer, @bitCast(self)).value()),
+            .uint => @floatFromInt(@as(UnsignedInteger, @bitCast(self)).value()),
+            else => fail(error.MismatchedType, "Mismatched type"),
+        };
     }
 
     pub fn asAny(self: @This()) AnyType {
@@ -140,14 +445,11 @@ pub const Float = packed struct(InterplayType) {
 pub fn BytesLike(comptime JsT: InterplayTypeId) type {
     return packed struct(InterplayType) {
         type: InterplayTypeId = JsT,
-        // NOTE: WASM currently focuses on memory32 (this can be expanded in the future)
-        // TODO: Make this dependent on the compile target (.wasm32 or .wasm64)
-        //       -> this means probably .len needs to be cut 3bits for remaining type info
-        ptr: u32,
-        len: u32,
+        ptr: usize,
+        len: Length,
 
         // Placeholder to keep fixed packed structs filled
-        _: u60 = 0,
+        _: BitFiller(@bitSizeOf(usize) + @bitSizeOf(Length)) = 0,
 
         pub fn init(v: []const u8) @This() {
             // Copy the value so it can be freed at any time
@@ -156,7 +458,16 @@ pub fn BytesLike(comptime JsT: InterplayTypeId) type {
 
             return .{
                 .ptr = @intFromPtr(cv.ptr),
-                .len = cv.len,
+                .len = @intCast(cv.len),
+            };
+        }
+
+        // Reference the value without copying it. The JS side will not free it, so the value
+        // needs to outlive its use in the JS environment.
+        pub fn borrow(v: []const u8) @This() {
+            return .{
+                .ptr = @intFromPtr(v.ptr),
+                .len = @intCast(v.len),
             };
         }
 
@@ -164,6 +475,9 @@ pub fn BytesLike(comptime JsT: InterplayTypeId) type {
         pub fn value(self: @This()) []const u8 {
             assertType(self.type, JsT);
 
+            // Empty values are not backed by any memory
+            if (self.len == 0) return &.{};
+
             const vPtr: [*]u8 = @ptrFromInt(self.ptr);
             return vPtr[0..self.len];
         }
@@ -184,13 +498,378 @@ pub const String = BytesLike(.string);
 //       For this we need a type argument for the json parser.
 pub const JSON = BytesLike(.json);
 
+// Compact binary alternative to JSON, which keeps binary data and 64bit integers intact. The Zig side can decode it
+// straight into Zig values with `into` and encode Zig values with `from`, without any intermediate Interplay Types.
+pub const CBOR = packed struct(InterplayType) {
+    type: InterplayTypeId = .cbor,
+    ptr: usize,
+    len: Length,
+
+    // Placeholder to keep fixed packed structs filled
+    _: BitFiller(@bitSizeOf(usize) + @bitSizeOf(Length)) = 0,
+
+    const Raw = BytesLike(.cbor);
+
+    // Copy an already encoded CBOR value
+    pub fn init(v: []const u8) @This() {
+        return @bitCast(Raw.init(v));
+    }
+
+    // Encode a Zig value. Supported are bools, integers up to 64bit, floats, byte slices (as text), byte arrays (as
+    // bytes), other slices and arrays, structs (as map of their fields), optionals (missing as `null`) and enums (by
+    // their name).
+    pub fn from(v: anytype) @This() {
+        var list = std.ArrayList(u8).init(allocator);
+        cbor.write(&list, v);
+
+        const encoded = list.toOwnedSlice() catch @panic("Oops");
+        return .{
+            .ptr = @intFromPtr(encoded.ptr),
+            .len = @intCast(encoded.len),
+        };
+    }
+
+    // Decode the value into a Zig value of type T, which supports the same types as `from`. Missing fields of a struct
+    // fall back to their default value or null, unknown fields are skipped. Byte and text strings point to the memory of
+    // the CBOR value and need to be copied to outlive it, other slices are allocated and owned by the caller.
+    pub fn into(self: @This(), comptime T: type) T {
+        var reader = cbor.Reader{ .bytes = self.value() };
+        return reader.read(T);
+    }
+
+    // The raw encoded value
+    pub fn value(self: @This()) []const u8 {
+        return @as(Raw, @bitCast(self)).value();
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
+
+// Reader and writer of CBOR (RFC 8949) driven by the Zig types. Items of indefinite length are not supported, as the JS
+// side never encodes them.
+const cbor = struct {
+    const Major = enum(u3) { uint = 0, negint = 1, bytes = 2, text = 3, array = 4, map = 5, tag = 6, simple = 7 };
+
+    const @"false": u8 = 0xf4;
+    const @"true": u8 = 0xf5;
+    const @"null": u8 = 0xf6;
+    const @"undefined": u8 = 0xf7;
+    const float64: u8 = 0xfb;
+
+    fn write(list: *std.ArrayList(u8), v: anytype) void {
+        const T = @TypeOf(v);
+        switch (@typeInfo(T)) {
+            .Bool => append(list, &.{if (v) @"true" else @"false"}),
+            .Int, .ComptimeInt => if (v < 0)
+                writeHead(list, .negint, std.math.cast(u64, -1 - @as(i128, v)) orelse overflow(T))
+            else
+                writeHead(list, .uint, std.math.cast(u64, v) orelse overflow(T)),
+            .Float, .ComptimeFloat => {
+                var bits: [8]u8 = undefined;
+                std.mem.writeInt(u64, &bits, @bitCast(@as(f64, v)), .big);
+                append(list, &.{float64});
+                append(list, &bits);
+            },
+            .Optional => if (v) |some| write(list, some) else append(list, &.{@"null"}),
+            .Null => append(list, &.{@"null"}),
+            .Enum, .EnumLiteral => writeString(list, .text, @tagName(v)),
+            .Pointer => |info| switch (info.size) {
+                .Slice => if (info.child == u8) writeString(list, .text, v) else writeList(list, v),
+                // Pointers to arrays, like string literals
+                .One => write(list, v.*),
+                else => @compileError("Type " ++ @typeName(T) ++ " is not supported by CBOR"),
+            },
+            .Array => |info| if (info.child == u8) {
+                // String literals are arrays with a sentinel, which is not part of the text
+                if (info.sentinel != null) writeString(list, .text, &v) else writeString(list, .bytes, &v);
+            } else writeList(list, &v),
+            .Struct => |info| {
+                writeHead(list, .map, info.fields.len);
+                inline for (info.fields) |field| {
+                    writeString(list, .text, field.name);
+                    write(list, @field(v, field.name));
+                }
+            },
+            .Void => append(list, &.{@"undefined"}),
+            else => @compileError("Type " ++ @typeName(T) ++ " is not supported by CBOR"),
+        }
+    }
+
+    fn writeList(list: *std.ArrayList(u8), items: anytype) void {
+        writeHead(list, .array, items.len);
+        for (items) |item| write(list, item);
+    }
+
+    fn writeString(list: *std.ArrayList(u8), major: Major, v: []const u8) void {
+        writeHead(list, major, v.len);
+        append(list, v);
+    }
+
+    // Write the first byte of an item with its argument, e.g. a length or an integer, in the shortest form
+    fn writeHead(list: *std.ArrayList(u8), major: Major, arg: u64) void {
+        const initial = @as(u8, @intFromEnum(major)) << 5;
+        if (arg < 24) return append(list, &.{initial | @as(u8, @intCast(arg))});
+
+        // The argument follows as 1, 2, 4 or 8 bytes, which is noted as 24 to 27 in the first byte
+        const size: usize = if (arg <= std.math.maxInt(u8)) 1 else if (arg <= std.math.maxInt(u16)) 2 else if (arg <= std.math.maxInt(u32)) 4 else 8;
+        var bytes: [9]u8 = undefined;
+        std.mem.writeInt(u64, bytes[1..], arg, .big);
+        bytes[8 - size] = initial | (24 + @as(u8, std.math.log2_int(usize, size)));
+        append(list, bytes[8 - size ..]);
+    }
+
+    fn append(list: *std.ArrayList(u8), bytes: []const u8) void {
+        list.appendSlice(bytes) catch @panic("Oops");
+    }
+
+    fn overflow(comptime T: type) noreturn {
+        fail(error.Overflow, "Integer of type " ++ @typeName(T) ++ " out of range of CBOR");
+    }
+
+    const Reader = struct {
+        bytes: []const u8,
+        pos: usize = 0,
+
+        const Head = struct { major: Major, info: u5, arg: u64 };
+
+        fn read(self: *Reader, comptime T: type) T {
+            if (@typeInfo(T) == .Optional) {
+                if (self.pos < self.bytes.len and (self.bytes[self.pos] == @"null" or self.bytes[self.pos] == @"undefined")) {
+                    self.pos += 1;
+                    return null;
+                }
+                return self.read(@typeInfo(T).Optional.child);
+            }
+
+            const h = self.valueHead();
+            switch (@typeInfo(T)) {
+                .Bool => if (h.major == .simple and (h.info == 20 or h.info == 21)) return h.info == 21,
+                .Int => switch (h.major) {
+                    .uint => return std.math.cast(T, h.arg) orelse overflow(T),
+                    .negint => return std.math.cast(T, -1 - @as(i128, h.arg)) orelse overflow(T),
+                    else => {},
+                },
+                .Float => switch (h.major) {
+                    .uint => return @floatFromInt(h.arg),
+                    .negint => return @floatFromInt(-1 - @as(i128, h.arg)),
+                    .simple => switch (h.info) {
+                        25 => return @floatCast(@as(f16, @bitCast(@as(u16, @intCast(h.arg))))),
+                        26 => return @floatCast(@as(f32, @bitCast(@as(u32, @intCast(h.arg))))),
+                        27 => return @floatCast(@as(f64, @bitCast(h.arg))),
+                        else => {},
+                    },
+                    else => {},
+                },
+                .Enum => switch (h.major) {
+                    .text => return std.meta.stringToEnum(T, self.take(h.arg)) orelse mismatch(T),
+                    .uint => return std.meta.intToEnum(T, h.arg) catch mismatch(T),
+                    else => {},
+                },
+                .Pointer => |info| if (info.size == .Slice) {
+                    if (info.child == u8) {
+                        if (h.major == .bytes or h.major == .text) return self.take(h.arg);
+                    } else if (h.major == .array) {
+                        const items = allocator.alloc(info.child, self.count(h.arg)) catch @panic("Oops");
+                        for (items) |*item| item.* = self.read(info.child);
+                        return items;
+                    }
+                } else @compileError("Type " ++ @typeName(T) ++ " is not supported by CBOR"),
+                .Array => |info| {
+                    var items: T = undefined;
+                    if (info.child == u8 and (h.major == .bytes or h.major == .text) and h.arg == info.len) {
+                        @memcpy(&items, self.take(h.arg));
+                        return items;
+                    }
+                    if (h.major == .array and h.arg == info.len) {
+                        for (&items) |*item| item.* = self.read(info.child);
+                        return items;
+                    }
+                },
+                .Struct => |info| if (h.major == .map) {
+                    var r: T = undefined;
+                    var found = [_]bool{false} ** info.fields.len;
+                    for (0..self.count(h.arg)) |_| {
+                        const k = self.read([]const u8);
+                        var known = false;
+                        inline for (info.fields, 0..) |field, i| {
+                            if (!known and std.mem.eql(u8, k, field.name)) {
+                                @field(r, field.name) = self.read(field.type);
+                                found[i] = true;
+                                known = true;
+                            }
+                        }
+                        if (!known) self.skip();
+                    }
+
+                    inline for (info.fields, 0..) |field, i| {
+                        if (found[i]) {
+                            // Already decoded
+                        } else if (field.default_value) |default| {
+                            @field(r, field.name) = @as(*const field.type, @ptrCast(@alignCast(default))).*;
+                        } else if (@typeInfo(field.type) == .Optional) {
+                            @field(r, field.name) = null;
+                        } else {
+                            fail(error.MissingField, "Missing field " ++ field.name);
+                        }
+                    }
+                    return r;
+                },
+                else => @compileError("Type " ++ @typeName(T) ++ " is not supported by CBOR"),
+            }
+            mismatch(T);
+        }
+
+        // Skip a whole item, e.g. the value of an unknown field
+        fn skip(self: *Reader) void {
+            const h = self.head();
+            switch (h.major) {
+                .uint, .negint, .simple => {},
+                .bytes, .text => _ = self.take(h.arg),
+                .array => for (0..self.count(h.arg)) |_| self.skip(),
+                .map => for (0..self.count(h.arg)) |_| {
+                    self.skip();
+                    self.skip();
+                },
+                .tag => self.skip(),
+            }
+        }
+
+        // Read the head of the next value. Tags only add semantics to a value, so they are ignored.
+        fn valueHead(self: *Reader) Head {
+            var h = self.head();
+            while (h.major == .tag) h = self.head();
+            return h;
+        }
+
+        fn head(self: *Reader) Head {
+            const initial = self.take(1)[0];
+            const info: u5 = @truncate(initial);
+            return .{
+                .major = @enumFromInt(@as(u3, @truncate(initial >> 5))),
+                .info = info,
+                .arg = switch (info) {
+                    0...23 => info,
+                    24 => self.take(1)[0],
+                    25 => std.mem.readInt(u16, self.take(2)[0..2], .big),
+                    26 => std.mem.readInt(u32, self.take(4)[0..4], .big),
+                    27 => std.mem.readInt(u64, self.take(8)[0..8], .big),
+                    else => fail(error.InvalidCbor, "Unsupported CBOR item"),
+                },
+            };
+        }
+
+        // Number of items of an array or map, which can't exceed the remaining bytes as each item is at least one byte
+        fn count(self: *Reader, n: u64) usize {
+            if (n > self.bytes.len - self.pos) fail(error.InvalidCbor, "Unexpected end of CBOR");
+            return @intCast(n);
+        }
+
+        fn take(self: *Reader, n: u64) []const u8 {
+            if (n > self.bytes.len - self.pos) fail(error.InvalidCbor, "Unexpected end of CBOR");
+            defer self.pos += @intCast(n);
+            return self.bytes[self.pos..][0..@intCast(n)];
+        }
+
+        fn mismatch(comptime T: type) noreturn {
+            fail(error.MismatchedType, "Mismatched CBOR type for " ++ @typeName(T));
+        }
+    };
+};
+
+pub const TypedArrayKind = enum(u4) { int8 = 0, uint8 = 1, uint8_clamped = 2, int16 = 3, uint16 = 4, int32 = 5, uint32 = 6, float32 = 7, float64 = 8, bigint64 = 9, biguint64 = 10 };
+
+pub fn TypedArray(comptime T: type) type {
+    const elementKind: TypedArrayKind = switch (T) {
+        i8 => .int8,
+        u8 => .uint8,
+        i16 => .int16,
+        u16 => .uint16,
+        i32 => .int32,
+        u32 => .uint32,
+        f32 => .float32,
+        f64 => .float64,
+        i64 => .bigint64,
+        u64 => .biguint64,
+        else => @compileError("Type " ++ @typeName(T) ++ " is not supported as typed array element"),
+    };
+
+    return packed struct(InterplayType) {
+        type: InterplayTypeId = .typedarray,
+        ptr: usize,
+        // Number of elements, not bytes
+        len: TypedArrayLength,
+        kind: TypedArrayKind = elementKind,
+        // Borrowed arrays are viewed directly by JS instead of being copied and freed
+        borrowed: bool = false,
+
+        // Placeholder to keep fixed packed structs filled
+        _: BitFiller(@bitSizeOf(usize) + @bitSizeOf(TypedArrayLength) + 5) = 0,
+
+        pub fn init(v: []const T) @This() {
+            // Copy the value so it can be freed at any time
+            const cv = allocator.alloc(T, v.len) catch @panic("Oops");
+            @memcpy(cv, v);
+
+            return .{
+                .ptr = @intFromPtr(cv.ptr),
+                .len = @intCast(cv.len),
+            };
+        }
+
+        // Hand out the value without copying it. JS views the memory directly, so the value needs to outlive its use
+        // in the JS environment and any writes on either side are visible to the other.
+        pub fn borrow(v: []T) @This() {
+            return .{
+                .ptr = @intFromPtr(v.ptr),
+                .len = @intCast(v.len),
+                .borrowed = true,
+            };
+        }
+
+        // Shortcut to easily access real value when received as an argument. A Uint8ClampedArray is accepted as []u8,
+        // as only writes of the JS side clamp.
+        pub fn value(self: @This()) []T {
+            assertType(self.type, .typedarray);
+            const clamped = elementKind == .uint8 and self.kind == .uint8_clamped;
+            if (self.kind != elementKind and !clamped) fail(error.MismatchedType, "Mismatched typed array element");
+
+            // Empty values are not backed by any memory
+            if (self.len == 0) return &.{};
+
+            const vPtr: [*]T = @ptrFromInt(self.ptr);
+            return vPtr[0..self.len];
+        }
+
+        pub fn asAny(self: @This()) AnyType {
+            return @bitCast(self);
+        }
+    };
+}
+
+pub const Int8Array = TypedArray(i8);
+// NOTE: The JS side passes a Uint8Array as Bytes, so only a Uint8ClampedArray is received by this one
+pub const Uint8Array = TypedArray(u8);
+pub const Int16Array = TypedArray(i16);
+pub const Uint16Array = TypedArray(u16);
+pub const Int32Array = TypedArray(i32);
+pub const Uint32Array = TypedArray(u32);
+pub const Float32Array = TypedArray(f32);
+pub const Float64Array = TypedArray(f64);
+pub const BigInt64Array = TypedArray(i64);
+pub const BigUint64Array = TypedArray(u64);
+
+pub const FunctionKind = enum(u1) { function = 0, iterator = 1 };
+
 pub const Function = packed struct(InterplayType) {
     type: InterplayTypeId = .function,
 
     ptr: usize,
     origin: enum(u1) { zig = 0, js = 1 },
+    kind: FunctionKind = .function,
 
-    _: u91 = 0,
+    _: BitFiller(@bitSizeOf(usize) + 2) = 0,
 
     const FunctionType = fn (args: Array) AnyType;
 
@@ -204,6 +883,14 @@ pub const Function = packed struct(InterplayType) {
     pub fn call(self: @This(), args: Array) AnyType {
         assertType(self.type, .function);
 
+        // Iterators are called without arguments for the next value and with any argument to close them
+        if (self.kind == .iterator) {
+            const iterator: Iterator = @bitCast(self);
+            if (args.len == 0) return iterator.next();
+            iterator.close();
+            return Void.init().asAny();
+        }
+
         if (self.origin == .zig) {
             const function: *const FunctionType = @ptrFromInt(self.ptr);
             return @call(.auto, function, .{args});
@@ -212,6 +899,109 @@ pub const Function = packed struct(InterplayType) {
         }
     }
 
+    // References to JS functions are only valid during the call that passed them. Retain the function to keep it
+    // callable afterwards, e.g. for event listeners. Every retain needs to be paired with a release.
+    pub fn retain(self: @This()) void {
+        assertType(self.type, .function);
+        if (self.origin == .js) js.functionRetain(self);
+    }
+
+    pub fn release(self: @This()) void {
+        assertType(self.type, .function);
+        if (self.origin == .js) js.functionRelease(self);
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
+
+// An iterator is a function that returns the next value on each call and a Void once it is done. JS consumes iterators
+// of Zig as iterables or ReadableStreams, while Zig consumes iterables and ReadableStreams of JS as iterators.
+pub const Iterator = packed struct(InterplayType) {
+    type: InterplayTypeId = .function,
+
+    // Points to the Generator of Zig iterators, otherwise the id within the function table of the JS side
+    ptr: usize,
+    origin: enum(u1) { zig = 0, js = 1 } = .zig,
+    kind: FunctionKind = .iterator,
+
+    _: BitFiller(@bitSizeOf(usize) + 2) = 0,
+
+    const Generator = struct {
+        context: *anyopaque,
+        next: *const fn (context: *anyopaque) ?AnyType,
+        deinit: *const fn (context: *anyopaque) void,
+    };
+
+    // Create an iterator from a pointer to a generator, which is a struct with the public functions `next`, returning the
+    // next value or null once it is done, and `deinit`. The generator is deinitialized after its last value or as soon as
+    // the consumer stops early. Values of the generator are owned by the consumer.
+    pub fn init(generator: anytype) @This() {
+        const G = @typeInfo(@TypeOf(generator)).Pointer.child;
+        const Erased = struct {
+            fn next(context: *anyopaque) ?AnyType {
+                return G.next(@ptrCast(@alignCast(context)));
+            }
+
+            fn deinit(context: *anyopaque) void {
+                G.deinit(@ptrCast(@alignCast(context)));
+            }
+        };
+
+        const state = allocator.create(Generator) catch @panic("Oops");
+        state.* = .{ .context = generator, .next = Erased.next, .deinit = Erased.deinit };
+
+        return .{
+            .ptr = @intFromPtr(state),
+        };
+    }
+
+    // Get the next value or a Void once the iterator is done. Iterators of the JS side return a Promise of the next
+    // value instead, if they are asynchronous like a ReadableStream.
+    pub fn next(self: @This()) AnyType {
+        assertType(self.type, .function);
+
+        if (self.origin == .js) return js.call(@bitCast(self), Array.empty);
+
+        const state: *Generator = @ptrFromInt(self.ptr);
+        if (state.next(state.context)) |v| return v;
+
+        self.free();
+        return Void.init().asAny();
+    }
+
+    // Whether a value returned by next marks the end of the iteration. A `null` is a regular value.
+    pub fn isEnd(v: AnyType) bool {
+        return v.type == .void and !@as(Void, @bitCast(v)).isNull();
+    }
+
+    // Stop the iteration before it is done. Iterators of the JS side cancel their source, e.g. a ReadableStream.
+    pub fn close(self: @This()) void {
+        assertType(self.type, .function);
+
+        if (self.origin == .js) {
+            _ = js.call(@bitCast(self), Array.from(&.{Bool.init(true).asAny()}));
+        } else {
+            self.free();
+        }
+    }
+
+    fn free(self: @This()) void {
+        const state: *Generator = @ptrFromInt(self.ptr);
+        state.deinit(state.context);
+        allocator.destroy(state);
+    }
+
+    // Iterators of the JS side are only valid during the call that passed them, just like functions
+    pub fn retain(self: @This()) void {
+        @as(Function, @bitCast(self)).retain();
+    }
+
+    pub fn release(self: @This()) void {
+        @as(Function, @bitCast(self)).release();
+    }
+
     pub fn asAny(self: @This()) AnyType {
         return @bitCast(self);
     }
@@ -220,8 +1010,10 @@ pub const Function = packed struct(InterplayType) {
 pub const Array = packed struct(InterplayType) {
     type: InterplayTypeId = .array,
     ptr: usize = 0,
-    len: usize = 0,
-    _: u60 = 0,
+    len: Length = 0,
+    // Arrays created by us are handed over to the JS side when passed to a JS function, see js.call
+    origin: enum(u1) { zig = 0, js = 1 } = .zig,
+    _: BitFiller(@bitSizeOf(usize) + @bitSizeOf(Length) + 1) = 0,
 
     pub const empty: @This() = .{};
 
@@ -229,7 +1021,7 @@ pub const Array = packed struct(InterplayType) {
         const ptr = allocator.alloc(AnyType, capacity) catch @panic("Oops");
         return .{
             .ptr = @intFromPtr(ptr.ptr),
-            .len = capacity,
+            .len = @intCast(capacity),
         };
     }
 
@@ -255,3 +1047,316 @@ pub const Array = packed struct(InterplayType) {
         return @bitCast(self);
     }
 };
+
+pub const Error = packed struct(InterplayType) {
+    type: InterplayTypeId = .@"error",
+    // Points to two AnyType values, the error name and the message (both String)
+    ptr: usize,
+
+    _: BitFiller(@bitSizeOf(usize)) = 0,
+
+    pub fn init(err: anyerror, msg: []const u8) @This() {
+        const details = Array.from(&.{ String.init(@errorName(err)).asAny(), String.init(msg).asAny() });
+        return .{
+            .ptr = details.ptr,
+        };
+    }
+
+    pub fn name(self: @This()) []const u8 {
+        assertType(self.type, .@"error");
+        return self.detail(0);
+    }
+
+    pub fn message(self: @This()) []const u8 {
+        assertType(self.type, .@"error");
+        return self.detail(1);
+    }
+
+    fn detail(self: @This(), index: usize) []const u8 {
+        const details: [*]String = @ptrFromInt(self.ptr);
+        return details[index].value();
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
+
+pub const Promise = packed struct(InterplayType) {
+    type: InterplayTypeId = .promise,
+    // Id of the promise within the promise table of the JS side
+    id: u32,
+
+    _: u92 = 0,
+
+    // Create a new pending promise which needs to be settled with resolve or reject
+    pub fn init() @This() {
+        return js.promiseCreate();
+    }
+
+    // Settle a promise created by init with the given value. The value is owned by the JS side afterwards.
+    pub fn resolve(self: @This(), v: AnyType) void {
+        assertType(self.type, .promise);
+        js.promiseResolve(self, v);
+    }
+
+    // Settle a promise created by init with the given reason. The reason is owned by the JS side afterwards.
+    pub fn reject(self: @This(), reason: AnyType) void {
+        assertType(self.type, .promise);
+        js.promiseReject(self, reason);
+    }
+
+    // Call the function with the resolved value as the only argument. The returned promise resolves with the return
+    // of the function.
+    pub fn then(self: @This(), callback: Function) @This() {
+        assertType(self.type, .promise);
+        return js.promiseThen(self, callback);
+    }
+
+    // Call the function with the rejection reason as the only argument. The returned promise resolves with the return
+    // of the function.
+    pub fn catchError(self: @This(), callback: Function) @This() {
+        assertType(self.type, .promise);
+        return js.promiseCatch(self, callback);
+    }
+
+    // Promises passed by the JS side are only valid during the call that passed them, just like handles. Retain the
+    // promise to keep it valid afterwards, e.g. to chain on it within a later call, even once it has been settled.
+    // Promises returned by the JS side, like the one of then, are owned by us until they are returned or released.
+    // Every retain needs to be paired with a release.
+    pub fn retain(self: @This()) void {
+        assertType(self.type, .promise);
+        js.promiseRetain(self);
+    }
+
+    pub fn release(self: @This()) void {
+        assertType(self.type, .promise);
+        js.promiseRelease(self);
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
+
+pub const Struct = packed struct(InterplayType) {
+    type: InterplayTypeId = .@"struct",
+    // Points to pairs of AnyType values, the key (String) and the value of each field
+    ptr: usize = 0,
+    len: Length = 0,
+    _: BitFiller(@bitSizeOf(usize) + @bitSizeOf(Length)) = 0,
+
+    pub const empty: @This() = .{};
+
+    pub fn init(capacity: usize) @This() {
+        const ptr = allocator.alloc(AnyType, capacity * 2) catch @panic("Oops");
+        return .{
+            .ptr = @intFromPtr(ptr.ptr),
+            .len = @intCast(capacity),
+        };
+    }
+
+    // Convert a Zig struct to a Struct. The fields are converted with toAny.
+    pub fn from(v: anytype) @This() {
+        const fields = @typeInfo(@TypeOf(v)).Struct.fields;
+        const newStruct = init(fields.len);
+        inline for (fields, 0..) |field, i| {
+            newStruct.set(i, field.name, toAny(@field(v, field.name)));
+        }
+        return newStruct;
+    }
+
+    // Convert the Struct to a Zig struct of type T. The fields are converted with fromAny and missing fields fall back to
+    // their default value or null. Slices point to the memory of the Struct and need to be copied to outlive it.
+    pub fn into(self: @This(), comptime T: type) T {
+        assertType(self.type, .@"struct");
+
+        var r: T = undefined;
+        inline for (@typeInfo(T).Struct.fields) |field| {
+            if (self.get(field.name)) |v| {
+                @field(r, field.name) = fromAny(field.type, v);
+            } else if (field.default_value) |default| {
+                @field(r, field.name) = @as(*const field.type, @ptrCast(@alignCast(default))).*;
+            } else if (@typeInfo(field.type) == .Optional) {
+                @field(r, field.name) = null;
+            } else {
+                fail(error.MissingField, "Missing field " ++ field.name);
+            }
+        }
+        return r;
+    }
+
+    pub fn set(self: @This(), index: usize, k: []const u8, v: AnyType) void {
+        const arr: [*]AnyType = @ptrFromInt(self.ptr);
+        arr[index * 2] = String.init(k).asAny();
+        arr[index * 2 + 1] = v;
+    }
+
+    pub fn key(self: @This(), index: usize) []const u8 {
+        const arr: [*]String = @ptrFromInt(self.ptr);
+        return arr[index * 2].value();
+    }
+
+    // Find the value of the field with the given key
+    pub fn get(self: @This(), k: []const u8) ?AnyType {
+        const arr: [*]AnyType = @ptrFromInt(self.ptr);
+        for (0..self.len) |i| {
+            if (std.mem.eql(u8, self.key(i), k)) return arr[i * 2 + 1];
+        }
+        return null;
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
+
+/// An optional Interplay Type T, which is `null` on the JS side if missing. Both `null` and `undefined` passed by the JS
+/// side are missing values.
+pub fn Optional(comptime T: type) type {
+    return packed struct(InterplayType) {
+        type: InterplayTypeId,
+        v: u124,
+
+        pub const Some = T;
+
+        // Convert an optional Zig value with toAny, e.g. `Optional(String).init(map.get(key))`
+        pub fn init(v: anytype) @This() {
+            const some = v orelse return @bitCast(Void.initNull());
+            return @bitCast(toAny(some));
+        }
+
+        pub fn value(self: @This()) ?T {
+            if (self.type == .void) return null;
+            return @as(T, @bitCast(self));
+        }
+
+        pub fn asAny(self: @This()) AnyType {
+            return @bitCast(self);
+        }
+    };
+}
+
+/// The result of a function that can fail, which is either the Interplay Type T or an Error. Errors are thrown on the
+/// JS side with the Zig error name as `zigError`.
+pub fn Result(comptime T: type) type {
+    return packed struct(InterplayType) {
+        type: InterplayTypeId,
+        v: u124,
+
+        pub const Ok = T;
+
+        // Convert an error union with toAny, e.g. `Result(Integer).init(std.fmt.parseInt(i64, text, 10))`
+        pub fn init(v: anytype) @This() {
+            const some = v catch |err| return @bitCast(Error.init(err, @errorName(err)));
+            return @bitCast(toAny(some));
+        }
+
+        pub fn value(self: @This()) T {
+            if (self.type == .@"error") fail(error.MismatchedType, "Result is an error");
+            return @bitCast(self);
+        }
+
+        pub fn asAny(self: @This()) AnyType {
+            return @bitCast(self);
+        }
+    };
+}
+
+fn isInterplayType(comptime T: type) bool {
+    return switch (@typeInfo(T)) {
+        .Struct => |info| info.layout == .@"packed" and info.backing_integer == InterplayType and @hasField(T, "type"),
+        else => false,
+    };
+}
+
+/// Convert a Zig value to an Interplay Type. Supported are bools, integers, floats, byte slices (as String), structs (as
+/// Struct), optionals (missing as `null`), error unions (errors as Error) and Interplay Types themselves.
+pub fn toAny(v: anytype) AnyType {
+    const T = @TypeOf(v);
+    if (comptime isInterplayType(T)) return @bitCast(v);
+
+    return switch (@typeInfo(T)) {
+        .Void => Void.init().asAny(),
+        .Bool => Bool.init(v).asAny(),
+        .Int => |info| if (info.signedness == .signed) Integer.init(v).asAny() else UnsignedInteger.init(v).asAny(),
+        .ComptimeInt => if (v < 0) Integer.init(v).asAny() else UnsignedInteger.init(v).asAny(),
+        .Float, .ComptimeFloat => Float.init(v).asAny(),
+        .Pointer => String.init(v).asAny(),
+        .Struct => Struct.from(v).asAny(),
+        .Optional => Optional(AnyType).init(v).asAny(),
+        .Null => Void.initNull().asAny(),
+        .ErrorUnion => Result(AnyType).init(v).asAny(),
+        else => @compileError("Type " ++ @typeName(T) ++ " is not supported by Interplay"),
+    };
+}
+
+/// Convert an Interplay Type to a Zig value of type T. This is the counterpart to toAny. Numbers are accepted as any of
+/// the number types, as the JS side picks the type by value, e.g. `2` is passed as uint even for a float.
+pub fn fromAny(comptime T: type, v: AnyType) T {
+    if (comptime isInterplayType(T)) return @bitCast(v);
+
+    return switch (@typeInfo(T)) {
+        .Void => {},
+        .Bool => @as(Bool, @bitCast(v)).value(),
+        .Int => switch (v.type) {
+            .int => @as(Integer, @bitCast(v)).as(T),
+            .uint => @as(UnsignedInteger, @bitCast(v)).as(T),
+            else => fail(error.MismatchedType, "Mismatched type"),
+        },
+        .Float => switch (v.type) {
+            .int => @floatFromInt(@as(Integer, @bitCast(v)).value()),
+            .uint => @floatFromInt(@as(UnsignedInteger, @bitCast(v)).value()),
+            else => @floatCast(@as(Float, @bitCast(v)).value()),
+        },
+        .Pointer => switch (v.type) {
+            .bytes => @as(Bytes, @bitCast(v)).value(),
+            else => @as(String, @bitCast(v)).value(),
+        },
+        .Struct => @as(Struct, @bitCast(v)).into(T),
+        .Optional => |info| if (v.type == .void) null else fromAny(info.child, v),
+        else => @compileError("Type " ++ @typeName(T) ++ " is not supported by Interplay"),
+    };
+}
+
+pub const Handle = packed struct(InterplayType) {
+    type: InterplayTypeId = .handle,
+    // Id of the object within the handle table of the JS side
+    id: u32,
+
+    _: u92 = 0,
+
+    // Read a property of the object. The arguments are only borrowed by the JS side, the returned value is owned by us.
+    pub fn get(self: @This(), name: []const u8) AnyType {
+        assertType(self.type, .handle);
+        return js.handleGet(self, String.borrow(name));
+    }
+
+    // Write a property of the object. The arguments are only borrowed by the JS side.
+    pub fn set(self: @This(), name: []const u8, v: AnyType) void {
+        assertType(self.type, .handle);
+        js.handleSet(self, String.borrow(name), v);
+    }
+
+    // Call a method of the object. The arguments are only borrowed by the JS side, the returned value is owned by us.
+    pub fn call(self: @This(), name: []const u8, args: Array) AnyType {
+        assertType(self.type, .handle);
+        return js.handleCall(self, String.borrow(name), args);
+    }
+
+    // Handles are only valid during the call that passed them. Retain the handle to keep it valid afterwards. Every
+    // retain needs to be paired with a release.
+    pub fn retain(self: @This()) void {
+        assertType(self.type, .handle);
+        js.handleRetain(self);
+    }
+
+    pub fn release(self: @This()) void {
+        assertType(self.type, .handle);
+        js.handleRelease(self);
+    }
+
+    pub fn asAny(self: @This()) AnyType {
+        return @bitCast(self);
+    }
+};
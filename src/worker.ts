@@ -0,0 +1,13 @@
+/*!
+ * @license zig-js-interplay
+ *
+ * Copyright (c) Daniel Oltmanns.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ */
+
+// The worker script used by `InterplayInstance.spawnWorker`
+import { serveWorker } from './interplay';
+
+serveWorker();
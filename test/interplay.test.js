@@ -0,0 +1,1063 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { Worker as NodeWorker } from 'node:worker_threads';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import InterplayInstance, { InterplayError, InterplayPanicError, InterplayTypeError, handle, float, int, uint, cbor, encodeCbor, decodeCbor, InterplayTracer, InterplayRegistry } from '../dist/interplay.js';
+import { parseExports, parseConstants, generateDeclarations } from '../dist/declarations.js';
+
+const wasmPath = new URL('../example/main.wasm', import.meta.url);
+const pluginPath = new URL('../example/plugin.wasm', import.meta.url);
+
+describe('loading', () => {
+    it('loads from a file path', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('loads from raw bytes', async () => {
+        const inst = await InterplayInstance.initialize(await readFile(wasmPath));
+
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('loads from a compiled module', async () => {
+        const module = await WebAssembly.compile(await readFile(wasmPath));
+        const inst = await InterplayInstance.initialize(module);
+
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('loads from a streamed response', async () => {
+        const response = new Response(await readFile(wasmPath), { headers: { 'Content-Type': 'application/wasm' } });
+        const inst = await InterplayInstance.initializeFromResponse(response);
+
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('loads from a response without wasm content type', async () => {
+        const inst = await InterplayInstance.initializeFromResponse(new Response(await readFile(wasmPath)));
+
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('rejects failed responses', async () => {
+        await assert.rejects(InterplayInstance.initializeFromResponse(new Response(null, { status: 404 })));
+    });
+});
+
+describe('host imports', () => {
+    // A minimal module importing `js.double` and exporting `callHost`, which passes its argument to `double` and
+    // returns its result: (func (param i64 i64) (result i64 i64) local.get 0 local.get 1 call $double)
+    const hostModule = new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        // Type section: (i64, i64) -> (i64, i64)
+        0x01, 0x08, 0x01, 0x60, 0x02, 0x7e, 0x7e, 0x02, 0x7e, 0x7e,
+        // Import section: js.double
+        0x02, 0x0d, 0x01, 0x02, 0x6a, 0x73, 0x06, 0x64, 0x6f, 0x75, 0x62, 0x6c, 0x65, 0x00, 0x00,
+        // Function section
+        0x03, 0x02, 0x01, 0x00,
+        // Export section: callHost
+        0x07, 0x0c, 0x01, 0x08, 0x63, 0x61, 0x6c, 0x6c, 0x48, 0x6f, 0x73, 0x74, 0x00, 0x01,
+        // Code section
+        0x0a, 0x0a, 0x01, 0x08, 0x00, 0x20, 0x00, 0x20, 0x01, 0x10, 0x00, 0x0b,
+    ]);
+
+    it('converts arguments and returns of host functions', async () => {
+        const inst = await InterplayInstance.initialize(hostModule, { imports: { double: (v) => v * 2n } });
+
+        assert.equal(inst.callHost(21), 42n);
+    });
+
+    it('calls host functions declared with zig', async () => {
+        const registry = new InterplayRegistry();
+        const plugin = await registry.load('plugin', await readFile(pluginPath), { debug: true, imports: { decorate: (text) => `~ ${text} ~` } });
+        await registry.load('main', await readFile(wasmPath));
+
+        assert.equal(plugin.decoratedGreeting('Zig'), '~ Hello Zig! ~');
+        assert.equal(plugin.debug.memoryStats().count, 0);
+
+        registry.dispose();
+    });
+
+    it('rejects host functions colliding with builtin imports', async () => {
+        await assert.rejects(InterplayInstance.initialize(hostModule, { imports: { log: () => {} } }), /collides/);
+    });
+});
+
+describe('globals and constants', () => {
+    const encode = (text) => [text.length, ...new TextEncoder().encode(text)];
+
+    // A minimal module exporting the mutable global `counter` (i32, initially 42) and the constant `answer` (uint 42),
+    // which is a function returning its encoded value: (func (result i64 i64) i64.const 675 i64.const 0)
+    const constantsModule = new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        // Type section: () -> (i64, i64)
+        0x01, 0x06, 0x01, 0x60, 0x00, 0x02, 0x7e, 0x7e,
+        // Function section
+        0x03, 0x02, 0x01, 0x00,
+        // Global section: (global (mut i32) (i32.const 42))
+        0x06, 0x06, 0x01, 0x7f, 0x01, 0x41, 0x2a, 0x0b,
+        // Export section: counter and ipl_const_answer
+        0x07, 0x1e, 0x02, ...encode('counter'), 0x03, 0x00, ...encode('ipl_const_answer'), 0x00, 0x00,
+        // Code section
+        0x0a, 0x09, 0x01, 0x07, 0x00, 0x42, 0xa3, 0x05, 0x42, 0x00, 0x0b,
+    ]);
+
+    it('exposes globals as properties', async () => {
+        const inst = await InterplayInstance.initialize(constantsModule);
+
+        assert.equal(inst.counter, 42);
+        inst.counter = 5;
+        assert.equal(inst.counter, 5);
+    });
+
+    it('exposes constants as read-only properties', async () => {
+        const inst = await InterplayInstance.initialize(constantsModule);
+
+        assert.equal(inst.answer, 42n);
+        assert.equal(inst.ipl_const_answer, undefined);
+        assert.throws(() => { inst.answer = 1n; });
+    });
+
+    it('exposes constants exported by zig', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.equal(inst.version, '1.2.3');
+        assert.deepEqual(inst.limits, { max_name: 64n, strict: false, ratio: 0.5 });
+        assert.throws(() => { inst.version = '2.0.0'; });
+    });
+});
+
+describe('signatures', () => {
+    const encode = (text) => [text.length, ...new TextEncoder().encode(text)];
+
+    // A minimal module exporting `echo`, which returns its argument, and the signature of it, which returns the bytes
+    // [any, int] stored at address 16: (func (result i64 i64) i64.const 137438953733 i64.const 0)
+    const signatureModule = new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        // Type section: (i64, i64) -> (i64, i64), () -> (i64, i64) and (i32, i32) -> ()
+        0x01, 0x12, 0x03, 0x60, 0x02, 0x7e, 0x7e, 0x02, 0x7e, 0x7e, 0x60, 0x00, 0x02, 0x7e, 0x7e, 0x60, 0x02, 0x7f, 0x7f, 0x00,
+        // Function section
+        0x03, 0x04, 0x03, 0x00, 0x01, 0x02,
+        // Memory section: a single page
+        0x05, 0x03, 0x01, 0x00, 0x01,
+        // Export section: echo, ipl_sig_echo, free and memory
+        0x07, 0x27, 0x04, ...encode('echo'), 0x00, 0x00, ...encode('ipl_sig_echo'), 0x00, 0x01, ...encode('free'), 0x00, 0x02,
+        ...encode('memory'), 0x02, 0x00,
+        // Code section
+        0x0a, 0x17, 0x03,
+        0x06, 0x00, 0x20, 0x00, 0x20, 0x01, 0x0b,
+        0x0b, 0x00, 0x42, 0x85, 0x82, 0x80, 0x80, 0x80, 0x04, 0x42, 0x00, 0x0b,
+        0x02, 0x00, 0x0b,
+        // Data section
+        0x0b, 0x08, 0x01, 0x00, 0x41, 0x10, 0x0b, 0x02, 0xff, 0x02,
+    ]);
+
+    it('converts arguments to the expected types', async () => {
+        const inst = await InterplayInstance.initialize(signatureModule);
+
+        assert.equal(inst.echo(5), 5n);
+        assert.equal(inst.echo(-5n), -5n);
+        assert.equal(inst.ipl_sig_echo, undefined);
+    });
+
+    it('rejects arguments that do not match', async () => {
+        const inst = await InterplayInstance.initialize(signatureModule);
+
+        assert.throws(() => inst.echo(1.5), { name: 'InterplayTypeError', message: "Argument 0 of export 'echo' expects int, got number." });
+        assert.throws(() => inst.echo('5'), InterplayTypeError);
+        assert.throws(() => inst.echo(), InterplayTypeError);
+        assert.throws(() => inst.echo(1, 2), InterplayTypeError);
+        await assert.rejects(inst.async.echo('5'), InterplayTypeError);
+    });
+
+    it('rejects integers out of range', async () => {
+        const inst = await InterplayInstance.initialize(signatureModule);
+
+        assert.equal(inst.echo(-(1n << 123n)), -(1n << 123n));
+        assert.throws(() => inst.echo(1n << 123n), { name: 'InterplayTypeError', message: `Argument 0 of export 'echo' expects int, got ${1n << 123n} which is out of its range.` });
+    });
+
+    it('rejects bigints losing precision as float', async () => {
+        // The same module with the signature [any, float]
+        const floatModule = signatureModule.slice();
+        floatModule[floatModule.length - 1] = 0x04;
+        const inst = await InterplayInstance.initialize(floatModule);
+
+        assert.equal(inst.echo(2n ** 53n), 2 ** 53);
+        assert.throws(() => inst.echo(2n ** 53n + 1n), { name: 'InterplayTypeError', message: `Argument 0 of export 'echo' expects float, got ${2n ** 53n + 1n} which can't be represented exactly.` });
+    });
+});
+
+// A minimal module exporting `numbers`, which returns an iterator of Zig counting down the exported global `remaining`
+// from 3 within `call`. Closing it sets the exported global `closed` to 1. NOTE: `alloc` always returns the same address and `free` does nothing.
+const iteratorModule = new Uint8Array([
+    0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+    // Type section: () -> (i64, i64), (i64, i64, i64, i64) -> (i64, i64), (i32) -> i32 and (i32, i32) -> ()
+    0x01, 0x19, 0x04, 0x60, 0x00, 0x02, 0x7e, 0x7e, 0x60, 0x04, 0x7e, 0x7e, 0x7e, 0x7e, 0x02, 0x7e, 0x7e, 0x60, 0x01,
+    0x7f, 0x01, 0x7f, 0x60, 0x02, 0x7f, 0x7f, 0x00,
+    // Function section
+    0x03, 0x05, 0x04, 0x00, 0x01, 0x02, 0x03,
+    // Memory section: a single page
+    0x05, 0x03, 0x01, 0x00, 0x01,
+    // Global section: (global (mut i64) (i64.const 3)) and (global (mut i64) (i64.const 0))
+    0x06, 0x0b, 0x02, 0x7e, 0x01, 0x42, 0x03, 0x0b, 0x7e, 0x01, 0x42, 0x00, 0x0b,
+    // Export section: numbers, call, alloc, free, memory, closed and remaining
+    0x07, 0x3f, 0x07, 0x07, 0x6e, 0x75, 0x6d, 0x62, 0x65, 0x72, 0x73, 0x00, 0x00, 0x04, 0x63, 0x61, 0x6c, 0x6c, 0x00,
+    0x01, 0x05, 0x61, 0x6c, 0x6c, 0x6f, 0x63, 0x00, 0x02, 0x04, 0x66, 0x72, 0x65, 0x65, 0x00, 0x03, 0x06, 0x6d, 0x65,
+    0x6d, 0x6f, 0x72, 0x79, 0x02, 0x00, 0x06, 0x63, 0x6c, 0x6f, 0x73, 0x65, 0x64, 0x03, 0x01, 0x09, 0x72, 0x65, 0x6d, 0x61,
+    0x69, 0x6e, 0x69, 0x6e, 0x67, 0x03, 0x00,
+    // Code section
+    0x0a, 0x47, 0x04,
+    // numbers: a function of Zig origin and iterator kind
+    0x0b, 0x00, 0x42, 0x88, 0x80, 0x80, 0x80, 0x80, 0x04, 0x42, 0x00, 0x0b,
+    // call: without arguments the counter is returned as uint and decremented until it is 0, otherwise closed is set
+    0x30, 0x00, 0x20, 0x02, 0x42, 0x24, 0x88, 0x50, 0x04, 0x00, 0x23, 0x00, 0x50, 0x04, 0x00, 0x42, 0x00, 0x42, 0x00,
+    0x05, 0x23, 0x00, 0x42, 0x04, 0x86, 0x42, 0x03, 0x84, 0x42, 0x00, 0x23, 0x00, 0x42, 0x01, 0x7d, 0x24, 0x00, 0x0b,
+    0x05, 0x42, 0x01, 0x24, 0x01, 0x42, 0x00, 0x42, 0x00, 0x0b, 0x0b,
+    // alloc and free
+    0x05, 0x00, 0x41, 0x80, 0x08, 0x0b,
+    0x02, 0x00, 0x0b,
+]);
+
+describe('iterators', () => {
+    const collect = async (iterable) => {
+        const values = [];
+        for await (const value of iterable) values.push(value);
+        return values;
+    };
+
+    it('consumes iterators of Zig', async () => {
+        const inst = await InterplayInstance.initialize(iteratorModule);
+
+        assert.deepEqual([...inst.numbers()], [3n, 2n, 1n]);
+        assert.equal(inst.closed, 0n);
+    });
+
+    it('consumes iterators of Zig as stream', async () => {
+        const inst = await InterplayInstance.initialize(iteratorModule);
+
+        assert.deepEqual(await collect(inst.numbers().stream()), [3n, 2n, 1n]);
+    });
+
+    it('closes iterators of Zig when stopping early', async () => {
+        const inst = await InterplayInstance.initialize(iteratorModule);
+
+        for (const value of inst.numbers()) {
+            assert.equal(value, 3n);
+            break;
+        }
+        assert.equal(inst.closed, 1n);
+    });
+
+    it('iterates within zig', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { debug: true });
+
+        assert.deepEqual([...inst.countdown(3)], [3n, 2n, 1n]);
+        for (const value of inst.countdown(5)) {
+            assert.equal(value, 5n);
+            break;
+        }
+        assert.equal(inst.joinAll(['a', 'b', 'c'].values()), 'abc');
+        assert.equal(inst.debug.memoryStats().count, 0);
+    });
+
+    it('passes iterables and streams to Zig', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+        function* generate() {
+            yield 'a';
+            yield 'b';
+        }
+
+        assert.deepEqual(inst.testFunctionWithArgs((it) => [...it], [generate()]), ['a', 'b']);
+
+        const stream = new ReadableStream({
+            start(controller) {
+                controller.enqueue('c');
+                controller.enqueue('d');
+                controller.close();
+            },
+        });
+        // The stream is consumed after the call, so it needs to be retained
+        const consume = (it) => collect(it.retain()).finally(() => it.release());
+        assert.deepEqual(await inst.async.testFunctionWithArgs(consume, [stream]), ['c', 'd']);
+    });
+});
+
+describe('round-trips', () => {
+    let inst;
+    let logs;
+
+    before(async () => {
+        inst = await InterplayInstance.initializeFromFile(wasmPath);
+    });
+
+    // The print functions of the example pass the received value to `js.log`
+    const captureLogs = (t) => {
+        logs = [];
+        t.mock.method(console, 'log', (message) => logs.push(message));
+    };
+
+    it('void', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.silence(), undefined);
+        assert.equal(inst.testVoid(), undefined);
+        inst.printVoid(undefined);
+        assert.deepEqual(logs, ['Void = void!']);
+    });
+
+    it('null', () => {
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, [null, undefined, [null]]), [null, undefined, [null]]);
+        assert.equal(inst.testFunctionWithArgs(() => null, []), null);
+    });
+
+    it('optional', () => {
+        assert.equal(inst.greetOptional('Zig'), 'Hello Zig!');
+        assert.equal(inst.greetOptional(null), null);
+        assert.equal(inst.greetOptional(undefined), null);
+    });
+
+    it('bool', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.testBool(), true);
+        inst.printBool(true);
+        inst.printBool(false);
+        assert.deepEqual(logs, ['Bool = true!', 'Bool = false!']);
+    });
+
+    it('int', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.testInt(), -12345n);
+        inst.printInt(-12345);
+        inst.printInt(-12345n);
+        assert.deepEqual(logs, ['Int = -12345!', 'Int = -12345!']);
+    });
+
+    it('uint', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.testUint(), 12345n);
+        inst.printUint(12345);
+        inst.printUint(12345n);
+        assert.deepEqual(logs, ['Uint = 12345!', 'Uint = 12345!']);
+    });
+
+    it('float', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.testFloat(), 1.2345);
+        inst.printFloat(1.2345);
+        assert.deepEqual(logs, ['Float = 1.2345!']);
+    });
+
+    it('explicit numeric types', (t) => {
+        captureLogs(t);
+
+        inst.printFloat(float(2));
+        inst.printInt(int(5, 32));
+        inst.printUint(uint(255n, 8));
+        assert.deepEqual(logs, ['Float = 2!', 'Int = 5!', 'Uint = 255!']);
+
+        assert.throws(() => uint(256, 8), RangeError);
+        assert.throws(() => int(-129, 8), RangeError);
+        assert.throws(() => int(1.5), RangeError);
+        // Bit widths need to fit into the 124 bits of an interplay type
+        assert.equal(int(-1, 1).value, -1);
+        assert.throws(() => int(1, 0), { name: 'RangeError', message: 'Bit width 0 is not an integer between 1 and 124.' });
+        assert.throws(() => uint(1, 125), RangeError);
+        assert.throws(() => uint(1, 7.5), RangeError);
+    });
+
+    it('integers decoded as numbers', async () => {
+        const numbers = await InterplayInstance.initializeFromFile(wasmPath, { decodeIntegersAs: 'number' });
+        const auto = await InterplayInstance.initializeFromFile(wasmPath, { decodeIntegersAs: 'auto' });
+
+        assert.equal(numbers.testInt(), -12345);
+        assert.equal(numbers.testUint(), 12345);
+        assert.equal(auto.testUint(), 12345);
+        assert.equal(auto.testFunction(() => 2n ** 64n), 2n ** 64n);
+    });
+
+    it('bytes', (t) => {
+        captureLogs(t);
+
+        assert.deepEqual(inst.testBytes(), new TextEncoder().encode('Hello World'));
+        inst.printBytes(new Uint8Array([1, 2, 3]));
+        inst.printBytes(new Uint8Array([4, 5]).buffer);
+        assert.deepEqual(logs, ['Bytes = { 1, 2, 3 }!', 'Bytes = { 4, 5 }!']);
+    });
+
+    it('string', (t) => {
+        captureLogs(t);
+
+        assert.equal(inst.testString(), 'Bye World');
+        assert.equal(inst.greet('Zig'), 'Hello Zig!');
+        inst.printString('Bye World');
+        inst.printString('');
+        assert.deepEqual(logs, ['String = Bye World!', 'String = !']);
+    });
+
+    it('json', (t) => {
+        captureLogs(t);
+
+        assert.deepEqual(inst.testJSON(), { message: 'Greetings' });
+        inst.printJSON({ message: 'Greetings' });
+        assert.deepEqual(logs, ['JSON = {"message":"Greetings"}!']);
+    });
+
+    it('zig function', (t) => {
+        captureLogs(t);
+
+        const f = inst.testFunctionRef();
+        assert.equal(typeof f, 'function');
+        assert.equal(f(), 'Zig says hi!');
+        assert.equal(inst.testFunction(f), 'Zig says hi!');
+        assert.equal(inst.testFunctionWithArgs(f, ['Hello', 'from', 'JS']), 'Zig says hi!');
+        assert.deepEqual(logs, [
+            'This Zig function was passed as an argument and received 0 argument(s)!',
+            'This Zig function was passed as an argument and received 2 argument(s)!',
+            'This Zig function was passed as an argument and received 3 argument(s)!',
+        ]);
+    });
+
+    it('js function', () => {
+        const calls = [];
+        const f = (...args) => {
+            calls.push(args);
+            return 'JS says hello!';
+        };
+
+        assert.equal(inst.testFunction(f), 'JS says hello!');
+        assert.equal(inst.testFunctionWithArgs(f, ['Hello', 'from', 'JS']), 'JS says hello!');
+        assert.deepEqual(calls, [['Hello', 'World'], ['Hello', 'from', 'JS']]);
+    });
+
+    it('return of js function', () => {
+        assert.equal(inst.greetFunction(() => 'Zig'), 'Hello Zig!');
+    });
+
+    it('retained js function', () => {
+        let kept;
+        const first = () => 'first';
+
+        inst.testFunctionWithArgs((f) => { kept = f.retain(); }, [first]);
+        // The id of a retained function must not be reused by new functions
+        assert.equal(inst.testFunction(() => 'second'), 'second');
+        assert.equal(kept(), 'first');
+
+        kept.release();
+        assert.throws(() => kept(), /released/);
+    });
+
+    it('array', () => {
+        const values = [true, -1n, 2n, 1.5, 'text', new Uint8Array([1, 2]), { a: 1 }, [1n, 'nested']];
+
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, values), values);
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, []), []);
+    });
+
+    it('wide values', () => {
+        const values = [-(2n ** 123n), 2n ** 124n - 1n, 2 ** 53, -1, -0.1, 1e-300, Number.MIN_VALUE];
+
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, values), [-(2n ** 123n), 2n ** 124n - 1n, 2n ** 53n, -1n, -0.1, 1e-300, Number.MIN_VALUE]);
+    });
+
+    it('struct', () => {
+        let received;
+        const fields = new Map([['id', 2n ** 64n], ['data', new Uint8Array([1, 2])], ['nested', new Map([['name', 'Zig']])]]);
+
+        inst.testFunctionWithArgs((value) => { received = value; }, [fields]);
+        assert.deepEqual(received, { id: 2n ** 64n, data: new Uint8Array([1, 2]), nested: { name: 'Zig' } });
+        assert.throws(() => inst.testFunctionWithArgs(() => {}, [new Map([[1, 'invalid']])]));
+    });
+
+    it('plain objects as struct', () => {
+        // JSON can't represent bigints or bytes, so these objects are passed as struct instead
+        const value = { id: 2n ** 64n, data: new Uint8Array([1, 2]), nested: { big: -1n } };
+
+        assert.deepEqual(inst.testFunctionWithArgs((v) => v, [value]), value);
+        // Decoded structs stay structs, as JSON would decode the field as number
+        assert.deepEqual(inst.testFunctionWithArgs((v) => v, [new Map([['count', 1n]])]), { count: 1n });
+        assert.deepEqual(inst.testFunctionWithArgs((v) => v, [{ count: 1 }]), { count: 1 });
+    });
+
+    it('struct within zig', () => {
+        const moved = { x: 2n, y: -1n, label: 'point', visible: true, weight: null, size: { width: 1n, height: 1n } };
+
+        assert.deepEqual(inst.movePoint({ x: 1, y: -2 }), moved);
+        // Nested objects fitting JSON need to be passed as struct explicitly
+        assert.deepEqual(inst.movePoint({ x: 0, y: 0, label: 'Zig', visible: false, weight: 2, size: new Map([['width', 3]]) }),
+            { x: 1n, y: 1n, label: 'Zig', visible: false, weight: 4, size: { width: 3n, height: 1n } });
+        assert.throws(() => inst.movePoint({ y: 0 }), { zigError: 'MissingField', message: 'Missing field x' });
+        assert.throws(() => inst.movePoint({ x: 2 ** 40, y: 0 }), { zigError: 'Overflow' });
+    });
+
+    it('typed array', () => {
+        const values = [new Float32Array([1.5, -2.25]), new Int32Array([-1, 2]), new BigInt64Array([-(2n ** 63n)]), new Float64Array([])];
+
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, values), values);
+    });
+
+    it('typed array within zig', () => {
+        assert.equal(inst.sumFloat64(new Float64Array([1.5, 2.25])), 3.75);
+        assert.equal(inst.sumBytes(new Uint8ClampedArray([1, 2, 300])), 258n);
+        assert.throws(() => inst.sumFloat64(new Float32Array([1.5])), InterplayTypeError);
+    });
+
+    it('handle', () => {
+        class Counter { count = 0; }
+        const counter = new Counter();
+        const map = new Map([['key', 'value']]);
+
+        let received;
+
+        inst.testFunctionWithArgs((...args) => { received = args; }, [counter, handle(map)]);
+        assert.equal(received[0], counter);
+        assert.equal(received[1], map);
+        assert.equal(inst.testFunctionWithArgs(() => counter, []), counter);
+    });
+
+    it('handle within zig', () => {
+        class Counter { count = 1; describe() { return `Counted ${this.count}`; } }
+        const counter = new Counter();
+
+        assert.equal(inst.bumpCounter(counter), 'Counted 2');
+        assert.equal(inst.bumpCounter(counter), 'Counted 3');
+        assert.equal(counter.count, 3n);
+        assert.throws(() => inst.bumpCounter(handle({})), { zigError: 'MismatchedType' });
+    });
+
+    it('objects with their own json representation', () => {
+        class Point { constructor(x, y) { this.x = x; this.y = y; } toJSON() { return `${this.x},${this.y}`; } }
+
+        assert.deepEqual(inst.testFunctionWithArgs((...args) => args, [new Date(1700000000500), new Point(1, 2)]), ['2023-11-14T22:13:20.500Z', '1,2']);
+        // Handles are still available explicitly
+        const date = new Date();
+        let received;
+        inst.testFunctionWithArgs((v) => { received = v; }, [handle(date)]);
+        assert.equal(received, date);
+    });
+
+    it('cbor', () => {
+        const value = { id: 2n ** 64n + 1n, at: new Date(1700000000500), data: new Uint8Array([1, 2]), tags: new Set(['a']), keys: new Map([[1, 'one']]), missing: undefined };
+
+        let received;
+        assert.deepEqual(inst.testFunctionWithArgs((v) => cbor(received = v), [cbor(value)]), value);
+        assert.deepEqual(received, value);
+    });
+
+    it('cbor within zig', () => {
+        const order = { id: 2n ** 64n - 1n, item: 'Book', price: 9.5, tags: ['new', 'sale'], checksum: new Uint8Array([1, 2, 3, 4]), unknown: { skipped: [1] } };
+
+        assert.deepEqual(inst.shipOrder(cbor(order)), {
+            id: 2n ** 64n - 1n, item: 'Book', price: 9.5, quantity: 1, note: null, status: 'shipped', tags: ['new', 'sale'], checksum: new Uint8Array([1, 2, 3, 4]),
+        });
+        assert.deepEqual(inst.shipOrder(cbor({ id: 1, item: 'Pen', price: 2, note: 'Gift', status: 'pending' })), {
+            id: 1, item: 'Pen', price: 2, quantity: 1, note: 'Gift', status: 'shipped', tags: [], checksum: new Uint8Array(4),
+        });
+        assert.throws(() => inst.shipOrder(cbor({ id: 1, price: 2 })), { zigError: 'MissingField', message: 'Missing field item' });
+        assert.throws(() => inst.shipOrder(cbor({ id: -1, item: 'Pen', price: 2 })), { zigError: 'Overflow' });
+        assert.throws(() => inst.shipOrder(cbor({ id: 1, item: 'Pen', price: 2, status: 'lost' })), { zigError: 'MismatchedType' });
+    });
+
+    it('retained promise', async () => {
+        inst.keepPromise(Promise.resolve(2));
+        // Chaining works within a later call, even once the promise has been settled
+        await new Promise((resolve) => setTimeout(resolve));
+
+        // NOTE: The async variant keeps the callback alive until the chained promise has been settled
+        assert.equal(await inst.async.chainPromise((value) => value * 2), 4);
+        assert.throws(() => inst.chainPromise(() => {}), { zigError: 'NoPromise' });
+    });
+
+    it('promise settled by zig', async () => {
+        assert.equal(await inst.greetPromise('Zig'), 'Hello Zig!');
+        await assert.rejects(inst.greetPromise(''), (reason) => reason === 'No name given');
+    });
+
+    it('async', async () => {
+        assert.equal(await inst.async.greet('Zig'), 'Hello Zig!');
+        assert.equal(await inst.async.testFunction(async (...args) => args.join(' ')), 'Hello World');
+    });
+});
+
+describe('cbor', () => {
+    it('encodes the shortest form', () => {
+        const hex = (value) => Buffer.from(encodeCbor(value)).toString('hex');
+
+        // Examples of RFC 8949, Appendix A
+        assert.equal(hex(23), '17');
+        assert.equal(hex(1000000), '1a000f4240');
+        assert.equal(hex(-1000), '3903e7');
+        assert.equal(hex(18446744073709551615n), '1bffffffffffffffff');
+        assert.equal(hex(18446744073709551616n), 'c249010000000000000000');
+        assert.equal(hex(1.1), 'fb3ff199999999999a');
+        assert.equal(hex([1, [2, 3]]), '8201820203');
+        assert.equal(hex({ a: 1, b: [2, 3] }), 'a26161016162820203');
+        assert.equal(hex('ü'), '62c3bc');
+    });
+
+    it('decodes all forms', () => {
+        const decode = (hex) => decodeCbor(Buffer.from(hex, 'hex'));
+
+        assert.equal(decode('f93c00'), 1);
+        assert.equal(decode('fa47c35000'), 100000);
+        assert.equal(decode('3bffffffffffffffff'), -18446744073709551616n);
+        assert.equal(decode('c349010000000000000000'), -18446744073709551617n);
+        assert.deepEqual(decode('c074323031332d30332d32315432303a30343a30305a'), new Date('2013-03-21T20:04:00Z'));
+        assert.deepEqual(decode('9f018202039f0405ffff'), [1, [2, 3], [4, 5]]);
+        assert.deepEqual(decode('5f42010243030405ff'), new Uint8Array([1, 2, 3, 4, 5]));
+        assert.deepEqual(decode('a201020304'), new Map([[1, 2], [3, 4]]));
+        assert.throws(() => decode('8201'), /Unexpected end/);
+        assert.throws(() => decode('0101'), /Unexpected data/);
+    });
+});
+
+describe('shared memory', () => {
+    const encode = (text) => [text.length, ...new TextEncoder().encode(text)];
+
+    // A minimal module importing a shared memory and exporting `greet`, which returns the string 'Hi' stored at address 16
+    const sharedModule = new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        // Type section: () -> (i64, i64) and (i32, i32) -> ()
+        0x01, 0x0b, 0x02, 0x60, 0x00, 0x02, 0x7e, 0x7e, 0x60, 0x02, 0x7f, 0x7f, 0x00,
+        // Import section: env.memory, shared with a single page
+        0x02, 0x10, 0x01, ...encode('env'), ...encode('memory'), 0x02, 0x03, 0x01, 0x01,
+        // Function section
+        0x03, 0x03, 0x02, 0x00, 0x01,
+        // Export section: greet and free
+        0x07, 0x10, 0x02, ...encode('greet'), 0x00, 0x00, ...encode('free'), 0x00, 0x01,
+        // Code section
+        0x0a, 0x10, 0x02,
+        0x0b, 0x00, 0x42, 0x86, 0x82, 0x80, 0x80, 0x80, 0x04, 0x42, 0x00, 0x0b,
+        0x02, 0x00, 0x0b,
+        // Data section
+        0x0b, 0x08, 0x01, 0x00, 0x41, 0x10, 0x0b, 0x02, 0x48, 0x69,
+    ]);
+
+    it('decodes values within a shared memory', async () => {
+        const memory = new WebAssembly.Memory({ initial: 1, maximum: 1, shared: true });
+        const inst = await InterplayInstance.initialize(sharedModule, { memory });
+
+        assert.equal(inst.greet(), 'Hi');
+        assert.ok(memory.buffer instanceof SharedArrayBuffer);
+    });
+
+    it('rejects sharing the memory of a module without threads', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        await assert.rejects(InterplayInstance.spawnWorker(await readFile(wasmPath), { sharedWith: inst }), /requires a module built with threads/);
+    });
+});
+
+describe('registry', () => {
+    const encode = (text) => [text.length, ...new TextEncoder().encode(text)];
+
+    // A minimal module exporting `run`, which passes its argument to `greet` of the sibling module `main` and returns its
+    // return. NOTE: `alloc` always returns the same address and `free` does nothing.
+    const appModule = new Uint8Array([
+        0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+        // Type section: (i64, i64) -> (i64, i64), (i32) -> i32 and (i32, i32) -> ()
+        0x01, 0x12, 0x03, 0x60, 0x02, 0x7e, 0x7e, 0x02, 0x7e, 0x7e, 0x60, 0x01, 0x7f, 0x01, 0x7f, 0x60, 0x02, 0x7f, 0x7f, 0x00,
+        // Import section: main.greet
+        0x02, 0x0e, 0x01, ...encode('main'), ...encode('greet'), 0x00, 0x00,
+        // Function section
+        0x03, 0x04, 0x03, 0x00, 0x01, 0x02,
+        // Memory section: a single page
+        0x05, 0x03, 0x01, 0x00, 0x01,
+        // Export section: run, alloc, free and memory
+        0x07, 0x1f, 0x04, ...encode('run'), 0x00, 0x01, ...encode('alloc'), 0x00, 0x02, ...encode('free'), 0x00, 0x03,
+        ...encode('memory'), 0x02, 0x00,
+        // Code section
+        0x0a, 0x13, 0x03,
+        0x08, 0x00, 0x20, 0x00, 0x20, 0x01, 0x10, 0x00, 0x0b,
+        0x05, 0x00, 0x41, 0x80, 0x08, 0x0b,
+        0x02, 0x00, 0x0b,
+    ]);
+
+    it('links the exports of sibling modules', async () => {
+        const registry = new InterplayRegistry();
+
+        // Imports are resolved on each call, so the importing module can be loaded first
+        const app = await registry.load('app', appModule);
+        await assert.rejects(registry.load('app', appModule), /already been registered/);
+        assert.throws(() => app.run('Zig'), /Module 'main' has not been registered/);
+
+        await registry.load('main', await readFile(wasmPath));
+        assert.equal(app.run('Zig'), 'Hello Zig!');
+
+        registry.dispose();
+        assert.throws(() => registry.get('app'), /has not been registered/);
+    });
+
+    it('links modules built with zig', async () => {
+        const registry = new InterplayRegistry();
+        const plugin = await registry.load('plugin', await readFile(pluginPath), { debug: true, imports: { decorate: (text) => text } });
+        await registry.load('main', await readFile(wasmPath));
+
+        // The greeting is copied between both memories
+        assert.equal(plugin.shout('Zig'), 'HELLO ZIG!');
+        // The function of the plugin is passed to main, which calls back into the plugin
+        assert.equal(plugin.greetPlugin(), 'Hello Plugin!');
+        assert.equal(plugin.debug.memoryStats().count, 0);
+
+        registry.dispose();
+    });
+
+    it('passes functions of another instance as reference', async () => {
+        const main = await InterplayInstance.initializeFromFile(wasmPath);
+        const other = await InterplayInstance.initialize(iteratorModule);
+
+        // The iterator of the other instance is called through its own instance, even when called by Zig of main
+        const numbers = other.numbers();
+        assert.equal(main.testFunctionWithArgs(numbers, []), 3n);
+        assert.deepEqual([...numbers], [2n, 1n]);
+    });
+});
+
+describe('worker', () => {
+    // Node.js has no Web Workers, so they are emulated with a worker thread providing the same global scope
+    const workerScope = `
+        const { parentPort, workerData } = require('node:worker_threads');
+        const queue = [];
+        globalThis.postMessage = (message, transfer) => parentPort.postMessage(message, transfer);
+        parentPort.on('message', (data) => globalThis.onmessage ? globalThis.onmessage({ data }) : queue.push(data));
+        import(workerData.url).then(() => queue.forEach((data) => globalThis.onmessage({ data })));
+    `;
+
+    class Worker {
+        constructor(url) {
+            this.thread = new NodeWorker(workerScope, { eval: true, workerData: { url: url.href } });
+            this.thread.on('message', (data) => this.onmessage({ data }));
+            this.thread.on('error', (e) => this.onerror(e));
+        }
+
+        postMessage(message, transfer) {
+            this.thread.postMessage(message, transfer);
+        }
+
+        terminate() {
+            this.thread.terminate();
+        }
+    }
+
+    let proxy;
+
+    before(async () => {
+        globalThis.Worker = Worker;
+        proxy = await InterplayInstance.spawnWorker(await readFile(wasmPath));
+    });
+
+    after(() => {
+        proxy.terminate();
+        delete globalThis.Worker;
+    });
+
+    it('calls exports within the worker', async () => {
+        assert.equal(await proxy.greet('Worker'), 'Hello Worker!');
+        assert.equal(await proxy.testBool(), true);
+    });
+
+    it('moves bytes and typed arrays to the worker', async () => {
+        const values = [new Uint8Array([1, 2, 3]), new Float64Array([1.5])];
+
+        assert.deepEqual(await proxy.testFunctionWithArgs((...args) => args, values), [new Uint8Array([1, 2, 3]), new Float64Array([1.5])]);
+        assert.equal(values[0].byteLength, 0);
+    });
+
+    it('calls functions on the calling side', async () => {
+        const calls = [];
+
+        assert.equal(await proxy.testFunction((...args) => { calls.push(args); return 'Main says hi!'; }), 'Main says hi!');
+        assert.deepEqual(calls, [['Hello', 'World']]);
+    });
+
+    it('calls functions nested within objects', async () => {
+        const value = { name: 'nested', callback: () => 'called' };
+
+        assert.equal(await proxy.testFunctionWithArgs((v) => v.callback(), [value]), 'called');
+    });
+
+    it('rejects exports using the return of functions on the calling side', async () => {
+        // Zig only gets a promise of the return, as it can't wait for the calling side
+        await assert.rejects(proxy.greetFunction(() => 'Zig'), { name: 'InterplayTypeError', message: /function of the calling side/ });
+    });
+
+    it('rejects with the errors of the worker', async () => {
+        await assert.rejects(proxy.testPanic(), { name: 'InterplayPanicError', zigError: 'Panic', message: 'Something went wrong' });
+    });
+
+    it('shares the memory of an instance built with threads', async () => {
+        const bytes = await readFile(new URL('../example/main-shared.wasm', import.meta.url));
+        const memory = new WebAssembly.Memory({ initial: 17, maximum: 100, shared: true });
+        const inst = await InterplayInstance.initialize(bytes, { memory });
+        const workers = await Promise.all([1, 2].map(() => InterplayInstance.spawnWorker(bytes, { sharedWith: inst })));
+
+        try {
+            // All instances run on their own stack, while the counter and the allocator are shared
+            const greetings = await Promise.all(workers.flatMap((worker, i) => [worker.greet(`Worker ${i}`), worker.count()]));
+            assert.deepEqual(greetings.filter((_, i) => i % 2 === 0), ['Hello Worker 0!', 'Hello Worker 1!']);
+            assert.equal(inst.greet('Main'), 'Hello Main!');
+            assert.equal(inst.count(), 3n);
+            assert.deepEqual(await Promise.all(workers.map((worker) => worker.count())).then((counts) => counts.sort()), [4n, 5n]);
+        } finally {
+            workers.forEach((worker) => worker.terminate());
+        }
+    });
+});
+
+describe('debug', () => {
+    it('tracks allocations by the export causing them', async () => {
+        const leaks = [];
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { debug: { onLeak: (...args) => leaks.push(args) } });
+
+        let during;
+        inst.testFunctionWithArgs(() => { during = inst.debug.memoryStats(); }, ['text']);
+
+        assert.ok(during.count > 0);
+        assert.ok(during.allocations.every(a => a.origin === 'js' && a.exportName === 'testFunctionWithArgs'));
+        assert.equal(during.byExport.testFunctionWithArgs.count, during.count);
+        assert.equal(inst.debug.memoryStats().count, 0);
+        assert.deepEqual(leaks, []);
+    });
+
+    it('counts allocations of both sides once', async () => {
+        let allocated;
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { debug: true, hooks: { onReturn: (e) => { allocated = e.bytesAllocated; } } });
+
+        // The array of one item with 16 bytes, the argument and the return of the callback with 3 bytes each
+        inst.testFunctionWithArgs((text) => text, ['Zig']);
+        assert.equal(allocated, 22);
+        // The string of 9 bytes is allocated by Zig
+        inst.testString();
+        assert.equal(allocated, 9);
+        assert.equal(inst.debug.memoryStats().count, 0);
+    });
+
+    it('reports leaks to the logger', async () => {
+        const warnings = [];
+        const logger = { debug: () => {}, info: () => {}, warn: (m) => warnings.push(m), error: () => {} };
+
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { debug: true, logger });
+        inst.testLeak();
+        const quiet = await InterplayInstance.initializeFromFile(wasmPath, { debug: true, logger, logLevel: 'silent' });
+        quiet.testLeak();
+
+        assert.deepEqual(warnings, ["Call to 'testLeak' left 1 allocation(s) with 16 byte(s) behind."]);
+    });
+
+    it('leaves allocations of Zig alone on dispose', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { debug: true, logLevel: 'silent' });
+        inst.testLeak();
+        inst.dispose();
+
+        assert.deepEqual(inst.debug.memoryStats().allocations.map(a => [a.origin, a.size]), [['zig', 16]]);
+    });
+
+    it('requires debug mode for memory stats', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.throws(() => inst.debug.memoryStats(), /debug mode/);
+    });
+});
+
+describe('instrumentation', () => {
+    it('notifies hooks about calls and callbacks', async () => {
+        const events = [];
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, {
+            hooks: {
+                onCall: (e) => events.push(['call', e.exportName, e.args]),
+                onReturn: (e) => events.push(['return', e.exportName, e.result ?? e.error?.name, e.bytesAllocated > 0]),
+                onCallback: (e) => events.push(['callback', e.name, e.result]),
+            },
+        });
+
+        inst.greet('Daniel');
+        inst.testFunctionWithArgs(function shout(text) { return text.toUpperCase(); }, ['hi']);
+        assert.throws(() => inst.printString(5));
+
+        assert.deepEqual(events, [
+            ['call', 'greet', ['Daniel']],
+            ['return', 'greet', 'Hello Daniel!', true],
+            ['call', 'testFunctionWithArgs', [events[2][2][0], ['hi']]],
+            ['callback', 'shout', 'HI'],
+            ['return', 'testFunctionWithArgs', 'HI', true],
+            ['call', 'printString', [5]],
+            ['return', 'printString', 'InterplayTypeError', false],
+        ]);
+    });
+
+    it('records traces', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+        const tracer = new InterplayTracer();
+        const remove = inst.addHooks(tracer);
+
+        inst.testFunction(() => 'traced');
+        remove();
+        inst.greet('Daniel');
+
+        const { traceEvents } = JSON.parse(JSON.stringify(tracer));
+        assert.deepEqual(traceEvents.map(e => [e.name, e.cat, e.ph]), [['anonymous', 'callback', 'X'], ['testFunction', 'export', 'X']]);
+        assert.ok(traceEvents[1].dur >= traceEvents[0].dur);
+    });
+
+    it('passes messages of Zig to the logger', async () => {
+        const messages = [];
+        const logger = { debug: () => {}, info: (m) => messages.push(m), warn: () => {}, error: () => {} };
+
+        const inst = await InterplayInstance.initializeFromFile(wasmPath, { logger });
+        inst.printBool(true);
+        const quiet = await InterplayInstance.initializeFromFile(wasmPath, { logger, logLevel: 'warn' });
+        quiet.printBool(false);
+
+        assert.deepEqual(messages, ['Bool = true!']);
+    });
+});
+
+describe('lifecycle', () => {
+    it('restores snapshots', async () => {
+        const inst = await InterplayInstance.initialize(iteratorModule);
+        const snapshot = inst.snapshot();
+
+        assert.deepEqual([...inst.numbers()], [3n, 2n, 1n]);
+        inst.restore(snapshot);
+        assert.deepEqual([...inst.numbers()], [3n, 2n, 1n]);
+        inst.restore(snapshot);
+        assert.deepEqual([...inst.numbers()], [3n, 2n, 1n]);
+    });
+
+    it('restores snapshots in another instance', async () => {
+        const inst = await InterplayInstance.initialize(iteratorModule);
+        const other = await InterplayInstance.initialize(iteratorModule);
+
+        for (const value of inst.numbers()) break;
+        other.restore(inst.snapshot());
+        assert.equal(other.closed, 1n);
+        assert.deepEqual([...other.numbers()], [2n, 1n]);
+    });
+
+    it('rejects calls after being disposed', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+        const f = inst.testFunctionRef();
+
+        inst[Symbol.dispose]();
+        assert.throws(() => inst.greet('Daniel'), /disposed/);
+        assert.throws(() => f(), /disposed/);
+        await assert.rejects(inst.async.greet('Daniel'), /disposed/);
+        // Disposing multiple times is fine
+        inst.dispose();
+    });
+});
+
+describe('errors', () => {
+    it('throws traps as panic errors', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.throws(() => inst.testTrap(), (e) => e instanceof InterplayPanicError && e.zigError === undefined);
+        // The instance stays usable after a trap
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('throws panics with the zig error name', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.throws(() => inst.testPanic(), { name: 'InterplayPanicError', zigError: 'Panic', message: 'Something went wrong' });
+        assert.throws(() => inst.divide(1, 0), { name: 'InterplayPanicError', zigError: 'DivisionByZero', message: 'Cannot divide by zero' });
+        assert.equal(inst.divide(7, -2), -3n);
+    });
+
+    it('restores the stack after panics', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        // Each panic leaves a frame of 64KiB behind otherwise, which exceeds the stack of 1MiB after 16 calls
+        for(let i = 0; i < 32; i++) {
+            assert.throws(() => inst.testPanic(), { message: 'Something went wrong' });
+        }
+        assert.equal(inst.greet('Daniel'), 'Hello Daniel!');
+    });
+
+    it('throws errors returned by zig', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.throws(() => inst.parseInt('abc'), (e) => e instanceof InterplayError && !(e instanceof InterplayPanicError)
+            && e.zigError === 'InvalidCharacter' && e.message === 'InvalidCharacter');
+        assert.equal(inst.parseInt('-42'), -42n);
+    });
+
+    it('throws type errors for mismatched arguments', async () => {
+        const inst = await InterplayInstance.initializeFromFile(wasmPath);
+
+        assert.throws(() => inst.printString(5), { name: 'InterplayTypeError', zigError: 'MismatchedType', message: 'Mismatched type' });
+        assert.throws(() => inst.divide('7', 1), InterplayTypeError);
+    });
+});
+
+describe('declarations', () => {
+    const sourcePath = new URL('../example/src/main.zig', import.meta.url);
+    let source;
+
+    before(async () => {
+        source = await readFile(sourcePath, 'utf8');
+    });
+
+    const find = (name, options) => parseExports(source, options).find(e => e.name === name);
+
+    it('parses the exports of the example', () => {
+        // `String` is an alias of `ipl.String` and `Promise` of `ipl.Promise`
+        assert.deepEqual(find('greet'), { name: 'greet', params: [{ name: 'name', type: 'string' }], returnType: 'string' });
+        assert.deepEqual(find('greetPromise').returnType, 'Promise<any>');
+        assert.deepEqual(find('testFunctionWithArgs').params.map(p => p.type), ['(...args: any[]) => any', 'any[]']);
+        assert.deepEqual(find('movePoint').params[0].type, 'Map<string, any> | { [key: string]: any }');
+        assert.equal(find('silence').returnType, 'void');
+        // Functions of interplay.zig itself and functions that are not exported are skipped
+        assert.equal(find('alloc'), undefined);
+        assert.equal(find('printHelloWorld'), undefined);
+    });
+
+    it('resolves the generic types', () => {
+        assert.deepEqual(find('greetOptional'), { name: 'greetOptional', params: [{ name: 'name', type: 'string | null | undefined' }], returnType: 'string | null' });
+        assert.equal(find('parseInt').returnType, 'bigint');
+        assert.equal(find('sumFloat64').params[0].type, 'Float64Array');
+        // A Uint8Array is passed as Bytes, so only a Uint8ClampedArray is passed as []u8
+        assert.equal(find('sumBytes').params[0].type, 'Uint8ClampedArray');
+
+        const [bytes] = parseExports('export fn bytes(_: ipl.Optional(ipl.Integer), x: Unknown) ipl.TypedArray(u8) {}');
+        assert.deepEqual(bytes, { name: 'bytes', params: [{ name: 'arg0', type: 'number | bigint | InterplayValue | null | undefined' }, { name: 'x', type: 'unknown' }], returnType: 'Uint8Array' });
+        assert.deepEqual(parseExports('// export fn hidden() void {}'), []);
+    });
+
+    it('parses the constants of the example', () => {
+        assert.deepEqual(parseConstants(source), [{ name: 'version', type: 'string' }, { name: 'limits', type: '{ [key: string]: any }' }]);
+
+        const constants = 'ipl.exportConstant("strict", true); ipl.exportConstant("max", 64); ipl.exportConstant("ratio", 0.5); ipl.exportConstant("other", limit);';
+        assert.deepEqual(parseConstants(constants).map(c => c.type), ['boolean', 'bigint', 'number', 'any']);
+        assert.deepEqual(parseConstants(constants, { decodeIntegersAs: 'number' }).map(c => c.type), ['boolean', 'number', 'number', 'any']);
+    });
+
+    it('types integers by the decoding mode', () => {
+        for (const [mode, type] of [[undefined, 'bigint'], ['bigint', 'bigint'], ['number', 'number'], ['auto', 'number | bigint']]) {
+            const declarations = generateDeclarations(source, { decodeIntegersAs: mode });
+
+            assert.ok(declarations.includes(`    count(): ${type};`), mode);
+            assert.ok(declarations.includes(`    parseInt(text: string): ${type};`), mode);
+            // Integer arguments accept any of them
+            assert.ok(declarations.includes('    divide(a: number | bigint | InterplayValue, b: number | bigint | InterplayValue): ' + type + ';'), mode);
+        }
+    });
+
+    it('generates declarations with the command line tool', async () => {
+        const bin = new URL('../bin/interplay-dts.mjs', import.meta.url).pathname;
+        const { stdout } = await promisify(execFile)(process.execPath, [bin, sourcePath.pathname, '--name', 'MainExports', '--decode-integers-as', 'number']);
+
+        assert.equal(stdout, generateDeclarations(source, { interfaceName: 'MainExports', decodeIntegersAs: 'number', sourceName: 'main.zig' }));
+        assert.ok(stdout.startsWith('// This file has been generated by zig-js-interplay from main.zig. Do not edit.'));
+        assert.ok(stdout.includes('export interface MainExports {\n    readonly version: string;'));
+    });
+});